@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Medication, LogEntry, FrequencyType, VitalEntry, Appointment, MoodEntry, MoodType, SnoozeEntry, Profile, WellnessGoal } from './types';
+import { Medication, LogEntry, VitalEntry, Appointment, MoodEntry, MoodType, SnoozeEntry, Profile, WellnessGoal, ReminderDose, EscalationStep, CustomSound } from './types';
 import Dashboard from './components/Dashboard';
 import AddMedicationModal from './components/AddMedicationModal';
 import HistoryView from './components/HistoryView';
@@ -9,43 +9,88 @@ import VitalsView from './components/VitalsView';
 import AssistantView from './components/AssistantView';
 import SettingsModal from './components/SettingsModal';
 import OnboardingModal from './components/OnboardingModal';
-import { playNotificationSound, initAudio } from './services/audioService';
-import { Plus, Bell, BellRing, Home, Calendar, Activity, MessageSquareMore, HeartHandshake, UserCircle, Pill, Sparkles, ChevronDown, Users, X } from 'lucide-react';
+import ProfilePinPrompt from './components/ProfilePinPrompt';
+import EscalationAlert from './components/EscalationAlert';
+import { AppLockControls } from './components/AppLockGate';
+import { playNotificationSound, initAudio, speakReminder, registerCustomSounds, customSoundRef } from './services/audioService';
+import { DoseOccurrence, getDoseTimesForDate, getDoseQuantity, parseDateStr, toDateStr } from './services/scheduleService';
+import { adjustStock, formatStockAmount } from './services/inventoryService';
+import { findMissedDoses, withTrackingStart } from './services/adherenceService';
+import {
+  SentEscalations, SENT_ESCALATIONS_META_KEY, findDueEscalations, pruneSentEscalations, escalationKey, escalationText,
+  escalationTag, isDoseAcknowledged, toReminderDose
+} from './services/escalationService';
+import { BackupData } from './services/backupService';
+import { hasProfilePin, redactedReminder } from './services/profileLockService';
+import { buildReminderSchedule, syncBackgroundReminders, doseReminderText, snoozeReminderText, nagReminderText, spokenReminderText, REMINDER_ICON_URL } from './services/backgroundReminderService';
+import { SNOOZES_META_KEY, findNagsForMinute, nagTag, snoozeTag } from './services/nagService';
+import { NotificationDelivery, getNotificationDelivery, getAlertDelivery, getQuietHoursEnd } from './services/quietHoursService';
+import { QueuedReminderAction, NOTIFICATION_ACTIONS, REMINDER_SNOOZE_MINUTES, ACTIONS_QUEUED_MESSAGE, reminderTag, takeQueuedReminderActions } from './services/reminderActionService';
+import {
+  StoreName, StoreRecords, DEFAULT_PROFILE_ID, getAll, getByProfile, getByProfileAndDateRange, getAllStores, replaceAllStores,
+  getMeta, setMeta, syncCollection, whenWritesSettled, importFromLocalStorage
+} from './services/storageService';
+import { Plus, Bell, BellRing, Home, Calendar, Activity, MessageSquareMore, HeartHandshake, UserCircle, Pill, Sparkles, ChevronDown, Users, X, Lock } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { format } from 'date-fns';
+import { format, startOfDay, subDays } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 
-const App: React.FC = () => {
+const DEFAULT_PROFILES: Profile[] = [{ id: DEFAULT_PROFILE_ID, name: 'Myself', avatar: '👤', themeColor: 'blue' }];
+
+// How far back the missed-dose sweep looks for unlogged doses (covers days the app wasn't opened)
+const MISSED_DOSE_LOOKBACK_DAYS = 7;
+
+// Logs and vitals grow without bound, so only the active profile's are loaded in full. The other
+// profiles keep their recent logs in memory for reminders, escalations and the missed-dose sweep.
+const OTHER_PROFILE_LOG_DAYS = MISSED_DOSE_LOOKBACK_DAYS + 1;
+
+const loadProfileRecords = async (profileId: string, profileIds: string[]) => {
+  const recentFrom = toDateStr(subDays(new Date(), OTHER_PROFILE_LOG_DAYS));
+  const [ownLogs, otherLogs, ownVitals] = await Promise.all([
+    getByProfile('logs', profileId),
+    Promise.all(profileIds
+      .filter(id => id !== profileId)
+      .map(id => getByProfileAndDateRange('logs', id, recentFrom, '9999-12-31'))),
+    getByProfile('vitals', profileId)
+  ]);
+  return { logs: [...ownLogs, ...otherLogs.flat()], vitals: ownVitals };
+};
+
+interface AppProps {
+  appLock: AppLockControls;
+}
+
+const App: React.FC<AppProps> = ({ appLock }) => {
   const [activeTab, setActiveTab] = useState<'home' | 'history' | 'vitals' | 'care' | 'chat'>('home');
   
-  // Safe JSON Parse Helper
-  const safeParse = (key: string, fallback: any) => {
-    try {
-      const item = localStorage.getItem(key);
-      return item ? JSON.parse(item) : fallback;
-    } catch (e) {
-      console.error(`Error parsing ${key}`, e);
-      return fallback;
-    }
-  };
+  // Data is loaded asynchronously from IndexedDB; nothing is persisted until it has arrived
+  const [isDataLoaded, setIsDataLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   // Profile State
-  const [profiles, setProfiles] = useState<Profile[]>(() => 
-    safeParse('medimind_profiles', [{ id: 'default', name: 'Myself', avatar: '👤', themeColor: 'blue' }])
-  );
-  
-  const [activeProfileId, setActiveProfileId] = useState<string>(() => 
-    localStorage.getItem('medimind_active_profile') || 'default'
-  );
-
-  const [medications, setMedications] = useState<Medication[]>(() => safeParse('medimind_meds', []));
-  const [logs, setLogs] = useState<LogEntry[]>(() => safeParse('medimind_logs', []));
-  const [vitals, setVitals] = useState<VitalEntry[]>(() => safeParse('medimind_vitals', []));
-  const [appointments, setAppointments] = useState<Appointment[]>(() => safeParse('medimind_appointments', []));
-  const [moods, setMoods] = useState<MoodEntry[]>(() => safeParse('medimind_moods', []));
-  const [wellnessGoals, setWellnessGoals] = useState<WellnessGoal[]>(() => safeParse('medimind_goals', []));
+  const [profiles, setProfiles] = useState<Profile[]>(DEFAULT_PROFILES);
+  const [activeProfileId, setActiveProfileId] = useState<string>(DEFAULT_PROFILE_ID);
+  // A profile with a PIN is only shown once its PIN has been entered, until someone switches away
+  const [authenticatedProfileId, setAuthenticatedProfileId] = useState<string | null>(null);
+  const [pendingProfileId, setPendingProfileId] = useState<string | null>(null);
+
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [vitals, setVitals] = useState<VitalEntry[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [moods, setMoods] = useState<MoodEntry[]>([]);
+  const [wellnessGoals, setWellnessGoals] = useState<WellnessGoal[]>([]);
+  const [customSounds, setCustomSounds] = useState<CustomSound[]>([]);
+
+  // Last snapshot of each collection written to the database, so saves only write what changed
+  const persistedRef = useRef<Partial<Record<StoreName, { id: string }[]>>>({});
+  // Profile whose logs and vitals are loaded in full
+  const loadedProfileIdRef = useRef<string | null>(null);
   
   const [snoozedItems, setSnoozedItems] = useState<SnoozeEntry[]>([]);
+  // Critical doses that reached the last escalation step, shown with a call button until handled
+  const [emergencyDoses, setEmergencyDoses] = useState<DoseOccurrence[]>([]);
+  const sentEscalationsRef = useRef<SentEscalations>({});
   
   // Bluetooth State
   const [bluetoothDevice, setBluetoothDevice] = useState<any>(null); // Type 'any' to avoid strict WebBluetooth types issues in some environments
@@ -66,6 +111,8 @@ const App: React.FC = () => {
   );
 
   const lastCheckedMinuteRef = useRef<string>('');
+  // Latest handler for notification button presses, for the service worker listener set up once
+  const reminderActionRef = useRef<(action: QueuedReminderAction) => void>(() => {});
 
   // Check for first time onboarding
   useEffect(() => {
@@ -97,18 +144,94 @@ const App: React.FC = () => {
     setIsAddModalOpen(true);
   };
 
+  // Load Data (moving anything saved by older versions out of localStorage first).
+  // Also used to start over from the database after a backup is restored.
+  const loadData = async (preferredProfileId?: string) => {
+    await importFromLocalStorage();
+    const [storedProfiles, storedMeds, storedAppointments, storedMoods, storedGoals, storedSounds, storedActiveProfile] = await Promise.all([
+      getAll('profiles'), getAll('medications'), getAll('appointments'), getAll('moods'), getAll('goals'), getAll('sounds'),
+      getMeta<string>('activeProfileId')
+    ]);
+    sentEscalationsRef.current = (await getMeta<SentEscalations>(SENT_ESCALATIONS_META_KEY)) || {};
+    const storedSnoozes = (await getMeta<SnoozeEntry[]>(SNOOZES_META_KEY)) || [];
+    const loadedProfiles = storedProfiles.length > 0 ? storedProfiles : DEFAULT_PROFILES;
+    // Start in the last used profile, unless it has a PIN and another profile doesn't
+    const lastProfile = loadedProfiles.find(p => p.id === (preferredProfileId ?? storedActiveProfile));
+    const startProfile = lastProfile && hasProfilePin(lastProfile)
+      ? loadedProfiles.find(p => !hasProfilePin(p)) || lastProfile
+      : lastProfile || loadedProfiles[0];
+    const { logs: storedLogs, vitals: storedVitals } = await loadProfileRecords(startProfile.id, loadedProfiles.map(p => p.id));
+
+    persistedRef.current = {
+      profiles: storedProfiles, medications: storedMeds, logs: storedLogs, vitals: storedVitals,
+      appointments: storedAppointments, moods: storedMoods, goals: storedGoals, sounds: storedSounds
+    };
+    loadedProfileIdRef.current = startProfile.id;
+    setSnoozedItems(storedSnoozes);
+    setProfiles(loadedProfiles);
+    setMedications(withTrackingStart(storedMeds));
+    setLogs(storedLogs);
+    setVitals(storedVitals);
+    setAppointments(storedAppointments);
+    setMoods(storedMoods);
+    setWellnessGoals(storedGoals);
+    setCustomSounds(storedSounds);
+    setActiveProfileId(startProfile.id);
+    setIsDataLoaded(true);
+  };
+
+  useEffect(() => {
+    loadData().catch(e => {
+      console.error('Failed to load data', e);
+      setStorageError('Your data could not be loaded. Please check that this browser allows site storage and reload.');
+    });
+  }, []);
+
+  // Switching profile swaps in that profile's logs and vitals from the database
+  useEffect(() => {
+    if (!isDataLoaded || loadedProfileIdRef.current === activeProfileId) return;
+    let isCancelled = false;
+    const switchRecords = async () => {
+      await whenWritesSettled();
+      const records = await loadProfileRecords(activeProfileId, profiles.map(p => p.id));
+      if (isCancelled) return;
+      loadedProfileIdRef.current = activeProfileId;
+      persistedRef.current.logs = records.logs;
+      persistedRef.current.vitals = records.vitals;
+      setLogs(records.logs);
+      setVitals(records.vitals);
+    };
+    switchRecords().catch(e => console.error('Failed to load profile data', e));
+    return () => { isCancelled = true; };
+  }, [activeProfileId, isDataLoaded]);
+
   // Save Data
-  useEffect(() => { localStorage.setItem('medimind_profiles', JSON.stringify(profiles)); }, [profiles]);
-  useEffect(() => { localStorage.setItem('medimind_active_profile', activeProfileId); }, [activeProfileId]);
-  useEffect(() => { localStorage.setItem('medimind_meds', JSON.stringify(medications)); }, [medications]);
-  useEffect(() => { localStorage.setItem('medimind_logs', JSON.stringify(logs)); }, [logs]);
-  useEffect(() => { localStorage.setItem('medimind_vitals', JSON.stringify(vitals)); }, [vitals]);
-  useEffect(() => { localStorage.setItem('medimind_appointments', JSON.stringify(appointments)); }, [appointments]);
-  useEffect(() => { localStorage.setItem('medimind_moods', JSON.stringify(moods)); }, [moods]);
-  useEffect(() => { localStorage.setItem('medimind_goals', JSON.stringify(wellnessGoals)); }, [wellnessGoals]);
+  const persist = <K extends StoreName>(store: K, next: StoreRecords[K][]) => {
+    if (!isDataLoaded) return;
+    const previous = (persistedRef.current[store] || []) as StoreRecords[K][];
+    persistedRef.current[store] = next;
+    syncCollection(store, previous, next).catch(e => console.error(`Failed to save ${store}`, e));
+  };
+
+  useEffect(() => { persist('profiles', profiles); }, [profiles, isDataLoaded]);
+  useEffect(() => {
+    if (isDataLoaded) setMeta('activeProfileId', activeProfileId).catch(e => console.error('Failed to save active profile', e));
+  }, [activeProfileId, isDataLoaded]);
+  useEffect(() => {
+    if (isDataLoaded) setMeta(SNOOZES_META_KEY, snoozedItems).catch(e => console.error('Failed to save snoozes', e));
+  }, [snoozedItems, isDataLoaded]);
+  useEffect(() => { persist('medications', medications); }, [medications, isDataLoaded]);
+  useEffect(() => { persist('logs', logs); }, [logs, isDataLoaded]);
+  useEffect(() => { persist('vitals', vitals); }, [vitals, isDataLoaded]);
+  useEffect(() => { persist('appointments', appointments); }, [appointments, isDataLoaded]);
+  useEffect(() => { persist('moods', moods); }, [moods, isDataLoaded]);
+  useEffect(() => { persist('goals', wellnessGoals); }, [wellnessGoals, isDataLoaded]);
+  useEffect(() => { persist('sounds', customSounds); }, [customSounds, isDataLoaded]);
+  useEffect(() => { registerCustomSounds(customSounds); }, [customSounds]);
 
   // Check and reset daily goals
   useEffect(() => {
+    if (!isDataLoaded) return;
     const today = format(new Date(), 'yyyy-MM-dd');
     setWellnessGoals(prev => prev.map(g => {
       if (g.dateStr !== today) {
@@ -116,7 +239,7 @@ const App: React.FC = () => {
       }
       return g;
     }));
-  }, []);
+  }, [isDataLoaded]);
 
   // Derived filtered data for the current profile
   const currentMedications = useMemo(() => 
@@ -140,18 +263,34 @@ const App: React.FC = () => {
   [moods, activeProfileId]);
 
   const activeProfile = profiles.find(p => p.id === activeProfileId) || profiles[0];
+  const isActiveProfileLocked = hasProfilePin(activeProfile) && authenticatedProfileId !== activeProfile.id;
+
+  // Reminders for a profile nobody has unlocked mustn't name its medications
+  const isProfileRedacted = (profile?: Profile) =>
+    !!profile?.pin && (profile.id !== activeProfile.id || isActiveProfileLocked);
+
+  // With a dose, the notification gets Take / Snooze / Skip buttons the service worker acts on.
+  // A quiet delivery (the profile's quiet hours) plays no sound, and only vibrates if asked to.
+  const triggerNotification = async (
+    title: string,
+    body: string,
+    sound: any,
+    { dose, tag, delivery = 'normal' }: { dose?: ReminderDose; tag?: string; delivery?: NotificationDelivery } = {}
+  ) => {
+    const isQuiet = delivery !== 'normal';
 
-  const triggerNotification = async (title: string, body: string, sound: any) => {
     // Play sound immediately to ensure it alerts even if visual notification fails/delays
-    playNotificationSound(sound);
+    if (!isQuiet) {
+      playNotificationSound(sound);
+    } else if (delivery === 'vibrate' && navigator.vibrate) {
+      navigator.vibrate([200, 100, 200]);
+    }
     
     // Always show in-app toast as reliable backup
     setToast({ title, message: body });
     // Auto hide after 5 seconds
     setTimeout(() => setToast(null), 5000);
 
-    const iconUrl = "https://cdn-icons-png.flaticon.com/512/3063/3063822.png"; 
-    
     // Try Service Worker first for better mobile support (required for Android Chrome)
     let swRegistration = null;
     if ('serviceWorker' in navigator) {
@@ -167,10 +306,12 @@ const App: React.FC = () => {
        try {
          await swRegistration.showNotification(title, {
             body: body,
-            icon: iconUrl,
+            icon: REMINDER_ICON_URL,
             vibrate: [200, 100, 200],
+            silent: isQuiet,
             requireInteraction: true,
-            tag: 'medication-reminder'
+            tag: tag || (dose ? reminderTag(dose) : 'medication-reminder'),
+            ...(dose && { data: dose, actions: NOTIFICATION_ACTIONS })
          } as any);
          return;
        } catch (e) {
@@ -183,7 +324,8 @@ const App: React.FC = () => {
       if (Notification.permission === 'granted') {
         new Notification(title, {
           body: body,
-          icon: iconUrl,
+          icon: REMINDER_ICON_URL,
+          silent: isQuiet,
           requireInteraction: true,
           vibrate: [200, 100, 200]
         } as any);
@@ -202,6 +344,50 @@ const App: React.FC = () => {
      );
   };
 
+  const escalateDose = (dose: DoseOccurrence, step: EscalationStep) => {
+    const med = medications.find(m => m.id === dose.medicationId);
+    if (!med) return;
+    const reminderDose = toReminderDose(dose, med, DEFAULT_PROFILE_ID);
+    const patient = profiles.find(p => p.id === reminderDose.profileId);
+    const caregiver = profiles.find(p => p.id === patient?.caregiverProfileId);
+    const isRedacted = isProfileRedacted(patient);
+    const { title, body } = escalationText(step, med, dose, patient, caregiver, isRedacted);
+
+    if (step === 'renotify') {
+      const sound = (med.reminderSound && med.reminderSound !== 'default') ? med.reminderSound : (patient?.preferredSound || 'default');
+      triggerNotification(title, body, sound, { dose: isRedacted ? undefined : reminderDose, tag: escalationTag(reminderDose, step) });
+    } else {
+      triggerNotification(title, body, 'alert', { tag: escalationTag(reminderDose, step) });
+    }
+    if (step === 'emergency') {
+      setEmergencyDoses(prev => [...prev.filter(d => escalationKey(d, step) !== escalationKey(dose, step)), dose]);
+    }
+  };
+
+  // Remind about a dose, within its profile's quiet hours. Returns when to try again if the reminder is held back.
+  const remindDose = (med: Medication, dose: ReminderDose, text: { title: string; body: string }, tag: string, now: Date): number | null => {
+    const profile = profiles.find(p => p.id === dose.profileId);
+    const delivery = getNotificationDelivery(profile, med, now);
+    if (delivery === 'defer') return getQuietHoursEnd(profile!.quietHours!, now).getTime();
+
+    // Sound logic: Medication Sound > Profile Preferred Sound > Default
+    const sound = (med.reminderSound && med.reminderSound !== 'default')
+      ? med.reminderSound
+      : (profile?.preferredSound || 'default');
+
+    if (isProfileRedacted(profile)) {
+      const { title, body } = redactedReminder(profile);
+      triggerNotification(title, body, sound, { tag, delivery });
+    } else {
+      triggerNotification(text.title, text.body, sound, { dose, tag, delivery });
+      // Read aloud too, unless it's quiet time
+      if (profile?.voiceReminders?.enabled && delivery === 'normal') {
+        speakReminder(spokenReminderText(med, profile, now), profile.voiceReminders);
+      }
+    }
+    return null;
+  };
+
   useEffect(() => {
     if (notificationPermission !== 'granted') return;
 
@@ -209,49 +395,37 @@ const App: React.FC = () => {
       const now = new Date();
       const timeStr = format(now, 'HH:mm');
       const dateStr = format(now, 'yyyy-MM-dd');
-      const dayOfWeek = now.getDay();
       const currentMinuteKey = `${dateStr} ${timeStr}`;
 
       // 1. Check Snoozed Items
       setSnoozedItems(prevSnoozes => {
         const remainingSnoozes: SnoozeEntry[] = [];
+        let hasChanged = false;
         prevSnoozes.forEach(snooze => {
            if (Date.now() >= snooze.wakeUpTime) {
+             hasChanged = true;
              const med = medications.find(m => m.id === snooze.medicationId);
              if (med) {
                const profile = profiles.find(p => p.id === (med.profileId || 'default'));
-               const pName = profile?.name || 'User';
-               
-               const sound = (med.reminderSound && med.reminderSound !== 'default') 
-                  ? med.reminderSound 
-                  : (profile?.preferredSound || 'default');
-
-               triggerNotification(
-                 `Snooze Reminder`,
-                 `${pName}, take ${med.name} for your wellness.`,
-                 sound
-               );
+               const dose: ReminderDose = {
+                 medicationId: med.id, profileId: med.profileId || DEFAULT_PROFILE_ID, scheduledTime: snooze.scheduledTime, dateStr: snooze.dateStr || dateStr
+               };
+               const deferUntil = remindDose(med, dose, snoozeReminderText(med, profile), snoozeTag(dose), now);
+               if (deferUntil) remainingSnoozes.push({ ...snooze, wakeUpTime: deferUntil });
              }
            } else {
              remainingSnoozes.push(snooze);
            }
         });
-        return remainingSnoozes;
+        // Keep the same array when nothing woke up, so the snoozes aren't saved again every few seconds
+        return hasChanged ? remainingSnoozes : prevSnoozes;
       });
 
       if (lastCheckedMinuteRef.current === currentMinuteKey) return;
 
       // 2. Check Scheduled Times (Global check for all profiles)
       medications.forEach(med => {
-        if (med.frequency === FrequencyType.AS_NEEDED) return;
-        
-        if (med.frequency === FrequencyType.WEEKLY) {
-           if (med.daysOfWeek && med.daysOfWeek.length > 0 && !med.daysOfWeek.includes(dayOfWeek)) {
-             return;
-           }
-        }
-
-        if (med.times.includes(timeStr)) {
+        if (getDoseTimesForDate(med, now).includes(timeStr)) {
           // Check logs for specific profile
           const medProfileId = med.profileId || 'default';
           const isLogged = logs.some(l => 
@@ -265,22 +439,38 @@ const App: React.FC = () => {
           if (!isLogged && !isSnoozed) {
             // Find profile to get name and preferences
             const profile = profiles.find(p => p.id === medProfileId);
-            const pName = profile?.name || 'User';
-            
-            // Sound logic: Medication Sound > Profile Preferred Sound > Default
-            const sound = (med.reminderSound && med.reminderSound !== 'default') 
-              ? med.reminderSound 
-              : (profile?.preferredSound || 'default');
-            
-            triggerNotification(
-              `MediMind Reminder`,
-              `${pName}, take ${med.name} for your wellness.`,
-              sound
-            );
+            const dose: ReminderDose = { medicationId: med.id, profileId: medProfileId, scheduledTime: timeStr, dateStr };
+            const deferUntil = remindDose(med, dose, doseReminderText(med, profile, now), reminderTag(dose), now);
+            // Held for quiet hours: comes back as a snooze when they end
+            if (deferUntil) handleSnoozeMedication(med.id, timeStr, (deferUntil - now.getTime()) / 60000, dateStr);
           }
         }
       });
 
+      // 3. Repeat reminders for doses still not logged on medications set to nag
+      findNagsForMinute(medications, logs, snoozedItems, now).forEach(({ dose, repeat }) => {
+        const med = medications.find(m => m.id === dose.medicationId);
+        if (!med) return;
+        const reminderDose = toReminderDose(dose, med, DEFAULT_PROFILE_ID);
+        const profile = profiles.find(p => p.id === reminderDose.profileId);
+        const text = nagReminderText(med, profile, new Date(dose.timestamp), repeat);
+        const deferUntil = remindDose(med, reminderDose, text, nagTag(reminderDose, repeat), now);
+        if (deferUntil) handleSnoozeMedication(med.id, dose.time, (deferUntil - now.getTime()) / 60000, dose.dateStr);
+      });
+
+      // 4. Escalate critical doses nobody has taken or skipped
+      const { due, skipped } = findDueEscalations(medications, logs, sentEscalationsRef.current, now);
+      if (due.length > 0 || skipped.length > 0) {
+        const sent = pruneSentEscalations(sentEscalationsRef.current, now);
+        skipped.forEach(key => { sent[key] = now.getTime(); });
+        due.forEach(({ dose, step }) => {
+          sent[escalationKey(dose, step)] = now.getTime();
+          escalateDose(dose, step);
+        });
+        sentEscalationsRef.current = sent;
+        setMeta(SENT_ESCALATIONS_META_KEY, sent).catch(e => console.error('Failed to save escalations', e));
+      }
+
       lastCheckedMinuteRef.current = currentMinuteKey;
     };
 
@@ -288,7 +478,45 @@ const App: React.FC = () => {
     checkReminders();
 
     return () => clearInterval(intervalId);
-  }, [medications, logs, notificationPermission, snoozedItems, profiles]);
+  }, [medications, logs, notificationPermission, snoozedItems, profiles, activeProfileId, authenticatedProfileId]);
+
+  // Hand the upcoming reminders to the service worker so they still fire once the app is closed
+  useEffect(() => {
+    if (!isDataLoaded || notificationPermission !== 'granted') return;
+    // Logging a dose can touch logs and stock together; sync once things settle
+    const timeoutId = setTimeout(() => {
+      syncBackgroundReminders(buildReminderSchedule(medications, logs, profiles, snoozedItems, !!appLock.config))
+        .catch(e => console.error('Failed to schedule background reminders', e));
+    }, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [medications, logs, profiles, snoozedItems, notificationPermission, isDataLoaded, appLock.config]);
+
+  // Record scheduled doses nobody logged as MISSED once their grace window has passed
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const markMissedDoses = () => {
+      const now = new Date();
+      const from = startOfDay(subDays(now, MISSED_DOSE_LOOKBACK_DAYS));
+      setLogs(prev => {
+        const missed = findMissedDoses(medications, prev, from, now);
+        if (missed.length === 0) return prev;
+        return [...prev, ...missed.map(dose => ({
+          id: uuidv4(),
+          medicationId: dose.medicationId,
+          profileId: medications.find(m => m.id === dose.medicationId)?.profileId,
+          timestamp: dose.timestamp,
+          status: 'MISSED' as const,
+          scheduledTime: dose.time,
+          dateStr: dose.dateStr
+        }))];
+      });
+    };
+
+    const intervalId = setInterval(markMissedDoses, 60000);
+    markMissedDoses();
+
+    return () => clearInterval(intervalId);
+  }, [medications, isDataLoaded]);
 
   const requestPermission = async () => {
     initAudio(); // Unlock audio context
@@ -304,11 +532,16 @@ const App: React.FC = () => {
   };
 
   const handleAddMedication = (med: Medication) => {
-    const medWithProfile = { ...med, profileId: activeProfileId };
+    const medWithProfile = { ...med, profileId: activeProfileId, createdAt: Date.now() };
     setMedications(prev => [...prev, medWithProfile]);
     // Keeps modal open for multiple entries
   };
 
+  const handleImportMedications = (meds: Medication[]) => {
+    const createdAt = Date.now();
+    setMedications(prev => [...prev, ...meds.map(med => ({ ...med, profileId: activeProfileId, createdAt }))]);
+  };
+
   const handleUpdateMedication = (updatedMed: Medication) => {
     const medWithProfile = { ...updatedMed, profileId: updatedMed.profileId || activeProfileId };
     setMedications(prev => prev.map(m => m.id === medWithProfile.id ? medWithProfile : m));
@@ -346,75 +579,143 @@ const App: React.FC = () => {
     }));
   };
 
-  const handleSnoozeMedication = (medId: string, time: string, minutes: number) => {
+  const handleSnoozeMedication = (medId: string, time: string, minutes: number, dateStr: string = format(new Date(), 'yyyy-MM-dd')) => {
     const wakeUpTime = Date.now() + (minutes * 60 * 1000);
     setSnoozedItems(prev => [
       ...prev.filter(s => !(s.medicationId === medId && s.scheduledTime === time)),
-      { medicationId: medId, scheduledTime: time, wakeUpTime }
+      { medicationId: medId, scheduledTime: time, dateStr, wakeUpTime }
     ]);
   };
 
   const handleLogMedication = (medId: string, status: 'TAKEN' | 'SKIPPED', time?: string) => {
-    const todayStr = format(new Date(), 'yyyy-MM-dd');
+    const now = new Date();
+    const todayStr = format(now, 'yyyy-MM-dd');
     setSnoozedItems(prev => prev.filter(s => s.medicationId !== medId));
 
-    if (status === 'TAKEN' && notificationPermission === 'granted') {
-      const med = medications.find(m => m.id === medId);
-      if (med) {
-        const potentialStock = med.currentStock - 1;
-        if (potentialStock <= med.lowStockThreshold && med.currentStock > med.lowStockThreshold) {
-          triggerNotification(
-            `Low Stock Alert: ${med.name}`,
-            `You only have ${potentialStock} remaining. Consider refilling soon.`,
-            'alert'
-          );
-        }
-      }
-    }
-
-    const existingIndex = logs.findIndex(l => 
+    const existingLog = logs.find(l => 
       l.medicationId === medId && 
       l.dateStr === todayStr && 
       l.scheduledTime === time
     );
+    const entry: LogEntry = existingLog
+      ? { ...existingLog, status, timestamp: Date.now() }
+      : {
+          id: uuidv4(),
+          medicationId: medId,
+          profileId: activeProfileId,
+          timestamp: Date.now(),
+          status,
+          scheduledTime: time,
+          dateStr: todayStr
+        };
 
-    if (existingIndex >= 0) {
-      const existingLog = logs[existingIndex];
-      if (existingLog.status !== status) {
-        setMedications(prev => prev.map(m => {
-          if (m.id === medId) {
-            if (status === 'TAKEN') return { ...m, currentStock: m.currentStock - 1 };
-            if (status === 'SKIPPED' && existingLog.status === 'TAKEN') return { ...m, currentStock: m.currentStock + 1 };
-          }
-          return m;
-        }));
+    // Stock used by this dose, in the medication's unit, reconciled against an earlier log of it
+    // (follows the phase of a taper that the dose's day falls in)
+    const loggedMed = medications.find(m => m.id === medId);
+    const stockDelta = getLoggedStockUse(existingLog) - getLoggedStockUse(entry);
+
+    if (loggedMed && stockDelta < 0 && notificationPermission === 'granted') {
+      const potentialStock = adjustStock(loggedMed.currentStock, stockDelta);
+      if (potentialStock <= loggedMed.lowStockThreshold && loggedMed.currentStock > loggedMed.lowStockThreshold) {
+        const medProfile = profiles.find(p => p.id === (loggedMed.profileId || DEFAULT_PROFILE_ID));
+        triggerNotification(
+          `Low Stock Alert: ${loggedMed.name}`,
+          `You only have ${formatStockAmount(potentialStock, loggedMed.stockUnit)} remaining. Consider refilling soon.`,
+          'alert',
+          { delivery: getAlertDelivery(medProfile, loggedMed, now) }
+        );
       }
+    }
+
+    if (stockDelta !== 0) {
+      setMedications(prev => prev.map(m => 
+        m.id === medId ? { ...m, currentStock: adjustStock(m.currentStock, stockDelta) } : m
+      ));
+    }
+
+    setLogs(prev => existingLog ? prev.map(l => l.id === entry.id ? entry : l) : [...prev, entry]);
+  };
+
+  // Stock a log accounts for: only TAKEN doses consume stock, at the dose size of the day they were taken
+  const getLoggedStockUse = (log: LogEntry | undefined) => {
+    if (!log || log.status !== 'TAKEN') return 0;
+    const med = medications.find(m => m.id === log.medicationId);
+    return med ? getDoseQuantity(med, parseDateStr(log.dateStr)) : 0;
+  };
 
-      const newLogs = [...logs];
-      newLogs[existingIndex].status = status;
-      newLogs[existingIndex].timestamp = Date.now();
-      setLogs(newLogs);
+  // Create or edit a log for any day (used for backdated entries). Stock is reconciled against the previous version.
+  const handleSaveLog = (entry: LogEntry) => {
+    const previous = logs.find(l => l.id === entry.id);
+    const stockDelta = getLoggedStockUse(previous) - getLoggedStockUse(entry);
+
+    if (stockDelta !== 0) {
+      setMedications(prev => prev.map(m => 
+        m.id === entry.medicationId ? { ...m, currentStock: adjustStock(m.currentStock, stockDelta) } : m
+      ));
+    }
+
+    if (previous) {
+      setLogs(prev => prev.map(l => l.id === entry.id ? { ...entry, profileId: previous.profileId } : l));
     } else {
-      const newLog: LogEntry = {
-        id: uuidv4(),
-        medicationId: medId,
-        profileId: activeProfileId,
-        timestamp: Date.now(),
-        status,
-        scheduledTime: time,
-        dateStr: todayStr
-      };
-      setLogs(prev => [...prev, newLog]);
+      setLogs(prev => [...prev, { ...entry, profileId: entry.profileId || activeProfileId }]);
+    }
+  };
 
-      if (status === 'TAKEN') {
-        setMedications(prev => prev.map(m => {
-          if (m.id === medId) {
-            return { ...m, currentStock: Math.max(0, m.currentStock - 1) };
-          }
-          return m;
-        }));
-      }
+  // A Take / Snooze / Skip pressed on a reminder notification, queued by the service worker
+  const handleReminderAction = (action: QueuedReminderAction) => {
+    const med = medications.find(m => m.id === action.medicationId);
+    if (!med) return;
+
+    if (action.action === 'snooze') {
+      const remainingMs = action.at + REMINDER_SNOOZE_MINUTES * 60 * 1000 - Date.now();
+      handleSnoozeMedication(med.id, action.scheduledTime, Math.max(0, remainingMs) / 60000, action.dateStr);
+      return;
     }
+
+    const existing = logs.find(l =>
+      l.medicationId === med.id && l.dateStr === action.dateStr && l.scheduledTime === action.scheduledTime
+    );
+    setSnoozedItems(prev => prev.filter(s => !(s.medicationId === med.id && s.scheduledTime === action.scheduledTime)));
+    handleSaveLog({
+      id: existing?.id || uuidv4(),
+      medicationId: med.id,
+      profileId: med.profileId,
+      timestamp: action.at,
+      status: action.action === 'take' ? 'TAKEN' : 'SKIPPED',
+      scheduledTime: action.scheduledTime,
+      dateStr: action.dateStr
+    });
+  };
+  reminderActionRef.current = handleReminderAction;
+
+  // Apply notification actions queued while the app was closed, and any the worker reports while it's open
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const applyQueuedActions = () => {
+      takeQueuedReminderActions()
+        .then(actions => actions.forEach(a => reminderActionRef.current(a)))
+        .catch(e => console.error('Failed to apply reminder actions', e));
+    };
+    applyQueuedActions();
+
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (e: MessageEvent) => {
+      if (e.data?.type === ACTIONS_QUEUED_MESSAGE) applyQueuedActions();
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [isDataLoaded]);
+
+  const handleDeleteLog = (logId: string) => {
+    const log = logs.find(l => l.id === logId);
+    if (!log) return;
+    const restored = getLoggedStockUse(log);
+    if (restored > 0) {
+      setMedications(prev => prev.map(m => 
+        m.id === log.medicationId ? { ...m, currentStock: adjustStock(m.currentStock, restored) } : m
+      ));
+    }
+    setLogs(prev => prev.filter(l => l.id !== logId));
   };
 
   const handleLogMood = (type: MoodType) => {
@@ -441,6 +742,10 @@ const App: React.FC = () => {
     setVitals(prev => [...prev, { ...vital, profileId: activeProfileId }]);
   };
 
+  const handleImportVitals = (imported: VitalEntry[]) => {
+    setVitals(prev => [...prev, ...imported.map(v => ({ ...v, profileId: activeProfileId }))]);
+  };
+
   const handleAddAppointment = (appt: Appointment) => {
     setAppointments(prev => [...prev, { ...appt, profileId: activeProfileId }]);
   };
@@ -464,6 +769,48 @@ const App: React.FC = () => {
 
   const handleUpdateProfile = (profile: Profile) => {
     setProfiles(prev => prev.map(p => p.id === profile.id ? profile : p));
+    // Setting a PIN on the profile in use shouldn't lock you out of it straight away
+    if (profile.id === activeProfileId && profile.pin) setAuthenticatedProfileId(profile.id);
+  };
+
+  // Switching into a profile with a PIN goes through the PIN prompt first
+  const handleSwitchProfile = (id: string) => {
+    if (id === activeProfileId && !isActiveProfileLocked) return;
+    const target = profiles.find(p => p.id === id);
+    if (hasProfilePin(target)) {
+      setPendingProfileId(id);
+      return;
+    }
+    setActiveProfileId(id);
+    setAuthenticatedProfileId(null);
+  };
+
+  const handleProfileUnlocked = (id: string) => {
+    setActiveProfileId(id);
+    setAuthenticatedProfileId(id);
+    setPendingProfileId(null);
+  };
+
+  // Backup & Restore
+  // The page only holds part of the logs and vitals, so backups read and write the database itself
+  const getBackupData = (): Promise<BackupData> => getAllStores();
+
+  const handleRestoreBackup = async (data: BackupData) => {
+    await replaceAllStores({ ...data, medications: withTrackingStart(data.medications) });
+    await setMeta(SNOOZES_META_KEY, []);
+    await loadData(activeProfileId);
+  };
+
+  // Custom reminder sounds. Whatever used a deleted clip goes back to the default sound.
+  const handleAddCustomSound = (sound: CustomSound) => {
+    setCustomSounds(prev => [...prev, sound]);
+  };
+
+  const handleDeleteCustomSound = (id: string) => {
+    const ref = customSoundRef(id);
+    setCustomSounds(prev => prev.filter(s => s.id !== id));
+    setMedications(prev => prev.map(m => m.reminderSound === ref ? { ...m, reminderSound: 'default' } : m));
+    setProfiles(prev => prev.map(p => p.preferredSound === ref ? { ...p, preferredSound: undefined } : p));
   };
 
   // Wellness Goals Handlers
@@ -575,6 +922,17 @@ const App: React.FC = () => {
   // Safety fallback for rendering
   if (!activeProfile) return <div className="min-h-screen flex items-center justify-center text-slate-400">Loading Profile...</div>;
 
+  if (!isDataLoaded) {
+    return (
+      <div className="min-h-screen bg-[#f1f5f9] flex flex-col items-center justify-center gap-3 p-6 text-center">
+        <div className="bg-blue-500 text-white p-3 rounded-2xl shadow-lg shadow-blue-200">
+          <Pill size={28} />
+        </div>
+        <p className="text-sm font-medium text-slate-500 max-w-xs">{storageError || 'Loading your data…'}</p>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-[#f1f5f9] text-slate-800 font-sans pb-32">
       {/* Immersive Header */}
@@ -606,13 +964,14 @@ const App: React.FC = () => {
                       <button
                         key={p.id}
                         onClick={() => {
-                          setActiveProfileId(p.id);
+                          handleSwitchProfile(p.id);
                           setIsProfileMenuOpen(false);
                         }}
                         className={`w-full text-left px-4 py-3 text-sm flex items-center gap-3 hover:bg-slate-50 transition-colors ${activeProfileId === p.id ? 'bg-blue-50/50' : ''}`}
                       >
                          <span className="text-lg bg-slate-100 w-8 h-8 flex items-center justify-center rounded-full">{p.avatar}</span> 
                          <span className={`font-medium ${activeProfileId === p.id ? 'text-blue-600' : 'text-slate-700'}`}>{p.name}</span>
+                         {p.pin && <Lock size={12} className="text-slate-300" />}
                          {activeProfileId === p.id && <div className="w-2 h-2 rounded-full bg-blue-500 ml-auto shadow-[0_0_8px_rgba(59,130,246,0.5)]"></div>}
                       </button>
                     ))}
@@ -683,13 +1042,18 @@ const App: React.FC = () => {
             logs={currentLogs} 
             vitals={currentVitals} 
             moods={currentMoods} 
+            appointments={currentAppointments}
+            profile={activeProfile}
             userName={activeProfile.name}
+            onSaveLog={handleSaveLog}
+            onDeleteLog={handleDeleteLog}
           />
         )}
         {activeTab === 'vitals' && (
           <VitalsView 
             vitals={currentVitals} 
             onAddVital={handleAddVital} 
+            onImportVitals={handleImportVitals}
             watchConnected={fireBolttConnected}
             onSyncWatch={handleReadWatchData}
           />
@@ -754,6 +1118,9 @@ const App: React.FC = () => {
         onUpdate={handleUpdateMedication}
         initialData={editingMedication}
         activeProfile={activeProfile}
+        existingMedications={currentMedications}
+        onImport={handleImportMedications}
+        customSounds={customSounds}
       />
       
       <SettingsModal 
@@ -767,6 +1134,43 @@ const App: React.FC = () => {
         onConnectWatch={handleConnectWatch}
         connectedDeviceName={bluetoothDevice?.name}
         onTestNotification={handleTestNotification}
+        getBackupData={getBackupData}
+        onRestoreBackup={handleRestoreBackup}
+        appLock={appLock}
+        customSounds={customSounds}
+        onAddCustomSound={handleAddCustomSound}
+        onDeleteCustomSound={handleDeleteCustomSound}
+      />
+
+      {pendingProfileId && profiles.some(p => p.id === pendingProfileId) ? (
+        <ProfilePinPrompt
+          key={pendingProfileId}
+          profile={profiles.find(p => p.id === pendingProfileId)!}
+          onUnlocked={() => handleProfileUnlocked(pendingProfileId)}
+          onCancel={() => setPendingProfileId(null)}
+        />
+      ) : isActiveProfileLocked && (
+        <ProfilePinPrompt
+          key={activeProfile.id}
+          profile={activeProfile}
+          onUnlocked={() => handleProfileUnlocked(activeProfile.id)}
+          otherProfiles={profiles.filter(p => p.id !== activeProfile.id)}
+          onSwitchProfile={handleSwitchProfile}
+        />
+      )}
+
+      <EscalationAlert
+        alerts={emergencyDoses.flatMap(dose => {
+          const medication = medications.find(m => m.id === dose.medicationId);
+          if (!medication || isDoseAcknowledged(dose, logs)) return [];
+          const patient = profiles.find(p => p.id === (medication.profileId || DEFAULT_PROFILE_ID));
+          return [{ dose, medication, patient, isRedacted: isProfileRedacted(patient) }];
+        })}
+        onMarkTaken={(dose) => {
+          const med = medications.find(m => m.id === dose.medicationId);
+          if (med) handleReminderAction({ ...toReminderDose(dose, med, DEFAULT_PROFILE_ID), action: 'take', at: Date.now() });
+        }}
+        onDismiss={(dose) => setEmergencyDoses(prev => prev.filter(d => d !== dose))}
       />
 
       <OnboardingModal 
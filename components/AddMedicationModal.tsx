@@ -1,10 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Medication, FrequencyType, SoundType, Profile } from '../types';
+import { Medication, FrequencyType, ReminderSound, CustomSound, Profile, DosePhase, StockUnit, EscalationPlan, EscalationStep, NagSchedule } from '../types';
 import { parseMedicationInput, identifyPillFromImage, parseMedicationAudio } from '../services/geminiService';
-import { playNotificationSound } from '../services/audioService';
-import { Sparkles, Plus, X, Loader2, Package, Bell, Play, Timer, Camera, ScanLine, Pill, Tablets, Syringe, Droplet, Activity, SprayCan, AlertTriangle, Mic, Square, Check, Trash2, ArrowRight, Calendar } from 'lucide-react';
+import { playNotificationSound, getRecordingMimeType, customSoundRef } from '../services/audioService';
+import { STOCK_UNITS, getUnitLabel } from '../services/inventoryService';
+import { DEFAULT_GRACE_MINUTES } from '../services/adherenceService';
+import { ESCALATION_STEPS, DEFAULT_ESCALATION_PLAN, ESCALATION_MINUTE_OPTIONS } from '../services/escalationService';
+import { NAG_INTERVAL_OPTIONS, NAG_REPEAT_OPTIONS } from '../services/nagService';
+import { parseFhirMedications } from '../services/fhirImportService';
+import { Sparkles, Plus, X, Loader2, Package, Bell, Play, Timer, Camera, ScanLine, Pill, Tablets, Syringe, Droplet, Activity, SprayCan, AlertTriangle, Mic, Square, Check, Trash2, ArrowRight, Calendar, Layers, ShieldAlert, AlarmClockOff, FileJson } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { format, addMinutes } from 'date-fns';
+import { format, addMinutes, addDays } from 'date-fns';
 
 interface AddMedicationModalProps {
   isOpen: boolean;
@@ -13,6 +18,9 @@ interface AddMedicationModalProps {
   onUpdate?: (med: Medication) => void;
   initialData?: Medication | null;
   activeProfile: Profile;
+  existingMedications?: Medication[];
+  onImport?: (meds: Medication[]) => void;
+  customSounds?: CustomSound[];
 }
 
 const COLORS = [
@@ -35,19 +43,9 @@ const ICONS = [
   { name: 'other', icon: <Activity size={20} /> },
 ];
 
-const getSupportedMimeType = () => {
-  if (typeof MediaRecorder === 'undefined') return '';
-  const types = [
-    'audio/webm;codecs=opus',
-    'audio/webm',
-    'audio/mp4',
-    'audio/ogg',
-    'audio/aac'
-  ];
-  return types.find(type => MediaRecorder.isTypeSupported(type)) || '';
-};
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
 
-const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose, onAdd, onUpdate, initialData, activeProfile }) => {
+const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose, onAdd, onUpdate, initialData, activeProfile, existingMedications = [], onImport, customSounds = [] }) => {
   const [mode, setMode] = useState<'ai' | 'manual' | 'scan'>('ai');
   const [aiInput, setAiInput] = useState('');
   const [isParsing, setIsParsing] = useState(false);
@@ -62,12 +60,27 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
   const [dosage, setDosage] = useState('');
   const [frequency, setFrequency] = useState<FrequencyType>(FrequencyType.DAILY);
   const [times, setTimes] = useState<string[]>(['08:00']);
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [phases, setPhases] = useState<DosePhase[]>([]);
+  const [cycleOnDays, setCycleOnDays] = useState<number | string>(21);
+  const [cycleOffDays, setCycleOffDays] = useState<number | string>(7);
+  const [prnMinHours, setPrnMinHours] = useState<number | string>('');
+  const [prnMaxPerDay, setPrnMaxPerDay] = useState<number | string>('');
+  const [graceMinutes, setGraceMinutes] = useState<number>(DEFAULT_GRACE_MINUTES);
+  const [catchUpHours, setCatchUpHours] = useState<string>('');
+  const [escalation, setEscalation] = useState<EscalationPlan | undefined>(undefined);
+  const [nag, setNag] = useState<NagSchedule | undefined>(undefined);
   const [notes, setNotes] = useState('');
+  const [doseQuantity, setDoseQuantity] = useState<number | string>(1);
+  const [stockUnit, setStockUnit] = useState<StockUnit>('tablets');
   const [currentStock, setCurrentStock] = useState<number | string>(30);
   const [lowStockThreshold, setLowStockThreshold] = useState<number | string>(5);
   const [expiryDate, setExpiryDate] = useState('');
   const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
-  const [reminderSound, setReminderSound] = useState<SoundType>('default');
+  const [courseType, setCourseType] = useState<'ongoing' | 'endDate' | 'doses'>('ongoing');
+  const [endDate, setEndDate] = useState('');
+  const [totalDoses, setTotalDoses] = useState<number | string>('');
+  const [reminderSound, setReminderSound] = useState<ReminderSound>('default');
   
   // Customization State
   const [selectedColor, setSelectedColor] = useState('blue');
@@ -82,6 +95,7 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
   const [confidenceWarning, setConfidenceWarning] = useState<string | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const fhirInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -91,11 +105,26 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
         setDosage(initialData.dosage);
         setFrequency(initialData.frequency);
         setTimes(initialData.times.length > 0 ? initialData.times : ['08:00']);
+        setDaysOfWeek(initialData.daysOfWeek || []);
+        setPhases(initialData.phases || []);
+        setCycleOnDays(initialData.cycleOnDays ?? 21);
+        setCycleOffDays(initialData.cycleOffDays ?? 7);
+        setPrnMinHours(initialData.prnMinHours ?? '');
+        setPrnMaxPerDay(initialData.prnMaxPerDay ?? '');
+        setGraceMinutes(initialData.graceMinutes ?? DEFAULT_GRACE_MINUTES);
+        setCatchUpHours(initialData.catchUpHours !== undefined ? String(initialData.catchUpHours) : '');
+        setEscalation(initialData.escalation);
+        setNag(initialData.nag);
         setNotes(initialData.notes || '');
+        setDoseQuantity(initialData.doseQuantity ?? 1);
+        setStockUnit(initialData.stockUnit || 'tablets');
         setCurrentStock(initialData.currentStock);
         setLowStockThreshold(initialData.lowStockThreshold);
         setExpiryDate(initialData.expiryDate || '');
         setStartDate(initialData.startDate || format(new Date(), 'yyyy-MM-dd'));
+        setCourseType(initialData.totalDoses ? 'doses' : initialData.endDate ? 'endDate' : 'ongoing');
+        setEndDate(initialData.endDate || '');
+        setTotalDoses(initialData.totalDoses || '');
         setReminderSound(initialData.reminderSound || 'default');
         setSelectedColor(initialData.color || 'blue');
         setSelectedIcon(initialData.icon || 'pill');
@@ -154,17 +183,37 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
     setDosage(parsed.dosage);
     setFrequency(parsed.frequency as FrequencyType);
     setTimes(parsed.times.length > 0 ? parsed.times : ['09:00']);
+    setDaysOfWeek(parsed.daysOfWeek || []);
+    if (parsed.cycleOnDays) setCycleOnDays(parsed.cycleOnDays);
+    if (parsed.cycleOffDays !== undefined) setCycleOffDays(parsed.cycleOffDays);
+    setPrnMinHours(parsed.prnMinHours || '');
+    setPrnMaxPerDay(parsed.prnMaxPerDay || '');
+    if (parsed.phases && parsed.phases.length > 0) {
+      setFrequency(FrequencyType.DAILY);
+      setPhases(parsed.phases.map((p: Omit<DosePhase, 'id'>) => ({ ...p, id: uuidv4() })));
+    } else {
+      setPhases([]);
+    }
     setNotes(parsed.notes || '');
     if (parsed.currentStock) {
       setCurrentStock(parsed.currentStock);
     }
+    if (parsed.doseQuantity) setDoseQuantity(parsed.doseQuantity);
+    if (parsed.stockUnit) setStockUnit(parsed.stockUnit);
+    if (parsed.totalDoses) {
+      setCourseType('doses');
+      setTotalDoses(parsed.totalDoses);
+    } else if (parsed.durationDays) {
+      setCourseType('endDate');
+      setEndDate(format(addDays(new Date(startDate + 'T00:00'), parsed.durationDays - 1), 'yyyy-MM-dd'));
+    }
     setMode('manual');
   };
 
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mimeType = getSupportedMimeType();
+      const mimeType = getRecordingMimeType();
       const options = mimeType ? { mimeType } : undefined;
       
       const mediaRecorder = new MediaRecorder(stream, options);
@@ -265,6 +314,27 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Medication list from a doctor's system (FHIR R4). Everything lands on the active profile;
+  // anything whose timing needed a guess is marked for review on its card.
+  const handleFhirFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fhirInputRef.current) fhirInputRef.current.value = '';
+    if (!file || !onImport) return;
+
+    try {
+      const { medications: imported, skipped } = parseFhirMedications(await file.text(), existingMedications);
+      const needReview = imported.filter(m => m.reviewNotes).length;
+      const lines = [`Imported ${imported.length} medication${imported.length === 1 ? '' : 's'}.`];
+      if (needReview > 0) lines.push(`${needReview} need${needReview === 1 ? 's' : ''} a schedule check - look for the Review tag.`);
+      if (skipped.length > 0) lines.push(`Skipped: ${skipped.map(s => `${s.name} (${s.reason})`).join(', ')}`);
+      if (imported.length > 0) onImport(imported);
+      alert(lines.join('\n'));
+      if (imported.length > 0) onClose();
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
   const calculateIntervalTimes = () => {
     const calculatedTimes: string[] = [];
     const [startH, startM] = intervalStartTime.split(':').map(Number);
@@ -293,6 +363,10 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
     
     let finalTimes = times;
     let intervalInMinutes = undefined;
+    const isPhased = frequency === FrequencyType.DAILY && phases.length > 0;
+    if (isPhased) {
+      finalTimes = phases[0].times;
+    }
 
     if (frequency === FrequencyType.AS_NEEDED) {
       finalTimes = [];
@@ -310,15 +384,29 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
       notes,
       color: selectedColor,
       icon: selectedIcon,
-      daysOfWeek: [], // Simplified for now
+      daysOfWeek: frequency === FrequencyType.WEEKLY ? daysOfWeek : [],
+      doseQuantity: Number(doseQuantity) > 0 ? Number(doseQuantity) : 1,
+      stockUnit,
       currentStock: Number(currentStock) || 0,
       lowStockThreshold: Number(lowStockThreshold) || 0,
       expiryDate: expiryDate || undefined,
       startDate: startDate,
+      endDate: !isPhased && courseType === 'endDate' && endDate ? endDate : undefined,
+      totalDoses: !isPhased && courseType === 'doses' ? Number(totalDoses) || undefined : undefined,
+      phases: isPhased ? phases.map(p => ({ ...p, doseQuantity: Number(p.doseQuantity) || 1, durationDays: Math.max(1, Number(p.durationDays) || 1) })) : undefined,
       reminderSound: reminderSound,
       refillDate: initialData?.refillDate,
+      createdAt: initialData?.createdAt,
       interval: intervalInMinutes,
-      startTime: frequency === FrequencyType.INTERVAL ? intervalStartTime : undefined
+      startTime: frequency === FrequencyType.INTERVAL ? intervalStartTime : undefined,
+      cycleOnDays: frequency === FrequencyType.CYCLIC ? Math.max(1, Number(cycleOnDays) || 1) : undefined,
+      cycleOffDays: frequency === FrequencyType.CYCLIC ? Math.max(0, Number(cycleOffDays) || 0) : undefined,
+      prnMinHours: frequency === FrequencyType.AS_NEEDED ? Number(prnMinHours) || undefined : undefined,
+      prnMaxPerDay: frequency === FrequencyType.AS_NEEDED ? Number(prnMaxPerDay) || undefined : undefined,
+      graceMinutes: frequency !== FrequencyType.AS_NEEDED ? graceMinutes : undefined,
+      catchUpHours: frequency !== FrequencyType.AS_NEEDED && catchUpHours !== '' ? Number(catchUpHours) : undefined,
+      escalation: frequency !== FrequencyType.AS_NEEDED ? escalation : undefined,
+      nag: frequency !== FrequencyType.AS_NEEDED ? nag : undefined
     };
 
     if (initialData && onUpdate) {
@@ -334,12 +422,27 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
     setDosage('');
     setFrequency(FrequencyType.DAILY);
     setTimes(['08:00']);
+    setDaysOfWeek([]);
+    setPhases([]);
+    setCycleOnDays(21);
+    setCycleOffDays(7);
+    setPrnMinHours('');
+    setPrnMaxPerDay('');
+    setGraceMinutes(DEFAULT_GRACE_MINUTES);
+    setCatchUpHours('');
+    setEscalation(undefined);
+    setNag(undefined);
     setNotes('');
     setAiInput('');
+    setDoseQuantity(1);
+    setStockUnit('tablets');
     setCurrentStock(30);
     setLowStockThreshold(5);
     setExpiryDate('');
     setStartDate(format(new Date(), 'yyyy-MM-dd'));
+    setCourseType('ongoing');
+    setEndDate('');
+    setTotalDoses('');
     setReminderSound(activeProfile.preferredSound || 'default');
     setMode('ai');
     setIntervalVal(4);
@@ -360,6 +463,28 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
     setTimes(times.filter((_, i) => i !== index));
   };
 
+  // Tapering plan editing
+  const startPhasedPlan = () => {
+    setPhases([{ id: uuidv4(), dosage, doseQuantity: 1, times: [...times], durationDays: 3 }]);
+  };
+  const addPhase = () => {
+    const last = phases[phases.length - 1];
+    setPhases([...phases, { id: uuidv4(), dosage: '', doseQuantity: last.doseQuantity, times: [...last.times], durationDays: last.durationDays }]);
+  };
+  const updatePhase = (index: number, changes: Partial<DosePhase>) => {
+    setPhases(phases.map((p, i) => i === index ? { ...p, ...changes } : p));
+  };
+  const removePhase = (index: number) => {
+    setPhases(phases.filter((_, i) => i !== index));
+  };
+  const updatePhaseTime = (index: number, timeIndex: number, val: string) => {
+    updatePhase(index, { times: phases[index].times.map((t, i) => i === timeIndex ? val : t) });
+  };
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
   const testSound = () => {
     playNotificationSound(reminderSound);
   };
@@ -415,6 +540,25 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
             </div>
           )}
 
+          {!initialData && onImport && mode === 'ai' && (
+            <div className="-mt-3 mb-5 text-center">
+              <button
+                type="button"
+                onClick={() => fhirInputRef.current?.click()}
+                className="text-xs font-bold text-slate-500 hover:text-indigo-600 inline-flex items-center gap-1.5"
+              >
+                <FileJson size={14} /> Import a medication list (FHIR)
+              </button>
+              <input
+                type="file"
+                ref={fhirInputRef}
+                className="hidden"
+                accept="application/json,application/fhir+json,.json"
+                onChange={handleFhirFileSelect}
+              />
+            </div>
+          )}
+
           {mode === 'scan' ? (
              <div className="flex flex-col items-center justify-center py-12 text-center animate-fadeIn">
                <div className="w-24 h-24 bg-indigo-50 rounded-full flex items-center justify-center mb-6 relative">
@@ -512,6 +656,18 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
             </form>
           ) : (
             <form onSubmit={handleManualSubmit} className="space-y-6 animate-fadeIn">
+              {initialData?.reviewNotes && (
+                <div className="bg-amber-50 text-amber-800 p-4 rounded-xl border border-amber-200 flex items-start gap-3 text-sm">
+                  <AlertTriangle size={18} className="mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-bold mb-1">Check the imported schedule</p>
+                    <ul className="list-disc pl-4 space-y-0.5">
+                      {initialData.reviewNotes.map((note, i) => <li key={i}>{note}</li>)}
+                    </ul>
+                    <p className="text-xs mt-2 text-amber-700">Saving marks it as reviewed.</p>
+                  </div>
+                </div>
+              )}
               {confidenceWarning && (
                 <div className="bg-amber-50 text-amber-800 p-4 rounded-xl border border-amber-200 flex items-start gap-3 text-sm">
                   <AlertTriangle size={18} className="mt-0.5 flex-shrink-0" />
@@ -553,6 +709,7 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
                         <option value={FrequencyType.DAILY}>Daily</option>
                         <option value={FrequencyType.WEEKLY}>Weekly</option>
                         <option value={FrequencyType.INTERVAL}>Interval</option>
+                        <option value={FrequencyType.CYCLIC}>Cyclic (On / Off)</option>
                         <option value={FrequencyType.AS_NEEDED}>As Needed</option>
                       </select>
                       <ArrowRight size={16} className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none rotate-90" />
@@ -599,18 +756,45 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <label className="block text-[10px] font-bold text-slate-400 mb-1">Current Stock</label>
+                      <label className="block text-[10px] font-bold text-slate-400 mb-1">Amount Per Dose</label>
+                      <input 
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={doseQuantity}
+                        onChange={(e) => setDoseQuantity(e.target.value)}
+                        disabled={frequency === FrequencyType.DAILY && phases.length > 0}
+                        title={frequency === FrequencyType.DAILY && phases.length > 0 ? 'Set per step in the tapering plan' : undefined}
+                        className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-bold disabled:opacity-50"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-slate-400 mb-1">Unit</label>
+                      <select 
+                        value={stockUnit}
+                        onChange={(e) => setStockUnit(e.target.value as StockUnit)}
+                        className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-bold"
+                      >
+                        {STOCK_UNITS.map(u => (
+                          <option key={u.value} value={u.value}>{u.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-slate-400 mb-1">Current Stock ({getUnitLabel(stockUnit)})</label>
                       <input 
                         type="number"
+                        step="any"
                         value={currentStock}
                         onChange={(e) => setCurrentStock(e.target.value)}
                         className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-bold"
                       />
                     </div>
                     <div>
-                      <label className="block text-[10px] font-bold text-slate-400 mb-1">Low Warning At</label>
+                      <label className="block text-[10px] font-bold text-slate-400 mb-1">Low Warning At ({getUnitLabel(stockUnit)})</label>
                       <input 
                         type="number"
+                        step="any"
                         value={lowStockThreshold}
                         onChange={(e) => setLowStockThreshold(e.target.value)}
                         className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-bold"
@@ -643,6 +827,56 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
                    </div>
                 </div>
 
+                {/* Course Length (tapering plans end after their last step) */}
+                {!(frequency === FrequencyType.DAILY && phases.length > 0) && (
+                <div>
+                   <label className="block text-xs font-bold text-slate-400 mb-1.5 uppercase tracking-wider">Course Length</label>
+                   <div className="grid grid-cols-3 gap-2 p-1 bg-slate-100 rounded-xl mb-2">
+                     {[
+                       { id: 'ongoing', label: 'Ongoing' },
+                       { id: 'endDate', label: 'Until Date' },
+                       { id: 'doses', label: 'Fixed Doses' },
+                     ].map(opt => (
+                       <button
+                         key={opt.id}
+                         type="button"
+                         onClick={() => setCourseType(opt.id as 'ongoing' | 'endDate' | 'doses')}
+                         className={`py-2 rounded-lg text-xs font-bold transition-all ${courseType === opt.id ? 'bg-white shadow-sm text-indigo-600 ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'}`}
+                       >
+                         {opt.label}
+                       </button>
+                     ))}
+                   </div>
+                   {courseType === 'endDate' && (
+                     <div className="relative">
+                        <input 
+                          type="date"
+                          required
+                          min={startDate}
+                          value={endDate}
+                          onChange={(e) => setEndDate(e.target.value)}
+                          className={inputClass}
+                        />
+                        <Calendar size={18} className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+                     </div>
+                   )}
+                   {courseType === 'doses' && (
+                     <input 
+                       type="number"
+                       required
+                       min="1"
+                       value={totalDoses}
+                       onChange={(e) => setTotalDoses(e.target.value)}
+                       placeholder="Total number of doses, e.g. 21"
+                       className={inputClass}
+                     />
+                   )}
+                   {courseType !== 'ongoing' && (
+                     <p className="text-xs text-slate-400 mt-1.5">Reminders stop automatically once the course is finished.</p>
+                   )}
+                </div>
+                )}
+
                 {frequency === FrequencyType.INTERVAL ? (
                    <div className="p-4 bg-blue-50 rounded-xl border border-blue-100">
                      <h4 className="font-bold text-blue-800 text-sm mb-3">Interval Schedule</h4>
@@ -677,8 +911,181 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
                        Times will be automatically calculated for the day.
                      </p>
                    </div>
-                ) : frequency !== FrequencyType.AS_NEEDED && (
+                ) : frequency === FrequencyType.DAILY && phases.length > 0 ? (
+                  <div className="p-4 bg-indigo-50/50 rounded-xl border border-indigo-100">
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="font-bold text-indigo-800 text-sm">Tapering Plan</h4>
+                      <button 
+                        type="button"
+                        onClick={() => setPhases([])}
+                        className="text-xs font-bold text-slate-400 hover:text-slate-600"
+                      >
+                        Use single dose
+                      </button>
+                    </div>
+                    <div className="space-y-3">
+                      {phases.map((phase, idx) => (
+                        <div key={phase.id} className="bg-white p-3 rounded-xl border border-indigo-100 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="text-[10px] font-bold text-indigo-500 uppercase tracking-wider">Step {idx + 1}</span>
+                            {phases.length > 1 && (
+                              <button type="button" onClick={() => removePhase(idx)} className="text-red-400 hover:text-red-600">
+                                <Trash2 size={14} />
+                              </button>
+                            )}
+                          </div>
+                          <div className="grid grid-cols-3 gap-2">
+                            <div className="col-span-3">
+                              <label className="block text-[10px] font-bold text-slate-400 mb-1">Dose</label>
+                              <input 
+                                required
+                                value={phase.dosage}
+                                onChange={(e) => updatePhase(idx, { dosage: e.target.value })}
+                                placeholder="e.g. 2 tablets"
+                                className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-[10px] font-bold text-slate-400 mb-1">{getUnitLabel(stockUnit)} / Dose</label>
+                              <input 
+                                type="number"
+                                min="0"
+                                step="0.25"
+                                value={phase.doseQuantity}
+                                onChange={(e) => updatePhase(idx, { doseQuantity: Number(e.target.value) })}
+                                className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-bold"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-[10px] font-bold text-slate-400 mb-1">Days</label>
+                              <input 
+                                type="number"
+                                min="1"
+                                value={phase.durationDays}
+                                onChange={(e) => updatePhase(idx, { durationDays: Number(e.target.value) })}
+                                className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-bold"
+                              />
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap gap-2 items-center">
+                            {phase.times.map((time, tIdx) => (
+                              <div key={tIdx} className="flex items-center gap-1">
+                                <input 
+                                  type="time"
+                                  value={time}
+                                  onChange={(e) => updatePhaseTime(idx, tIdx, e.target.value)}
+                                  className="p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold"
+                                />
+                                {phase.times.length > 1 && (
+                                  <button type="button" onClick={() => updatePhase(idx, { times: phase.times.filter((_, i) => i !== tIdx) })} className="text-slate-300 hover:text-red-500">
+                                    <X size={14} />
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                            <button 
+                              type="button"
+                              onClick={() => updatePhase(idx, { times: [...phase.times, '12:00'] })}
+                              className="text-xs font-bold text-blue-600 hover:text-blue-700 flex items-center gap-0.5"
+                            >
+                              <Plus size={12} /> Time
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <button 
+                      type="button" 
+                      onClick={addPhase}
+                      className="mt-3 text-sm font-bold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 py-1 px-2 rounded-lg hover:bg-indigo-50 transition-colors"
+                    >
+                      <Plus size={16} /> Add Step
+                    </button>
+                    <p className="text-xs text-indigo-400 mt-2">
+                      Steps run back to back from the start date. The course ends after the last step.
+                    </p>
+                  </div>
+                ) : frequency === FrequencyType.AS_NEEDED ? (
+                  <div className="p-4 bg-amber-50 rounded-xl border border-amber-100">
+                    <h4 className="font-bold text-amber-800 text-sm mb-1 flex items-center gap-2">
+                      <ShieldAlert size={16} /> Safety Limits
+                    </h4>
+                    <p className="text-xs text-amber-600 mb-3">Warns you before logging a dose too early or over the daily maximum.</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-[10px] font-bold text-amber-700/70 mb-1">Min Hours Between Doses</label>
+                        <input 
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={prnMinHours}
+                          onChange={(e) => setPrnMinHours(e.target.value)}
+                          placeholder="e.g. 4"
+                          className="w-full p-2 bg-white border border-amber-200 rounded-lg text-sm font-bold"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[10px] font-bold text-amber-700/70 mb-1">Max Doses per 24h</label>
+                        <input 
+                          type="number"
+                          min="1"
+                          value={prnMaxPerDay}
+                          onChange={(e) => setPrnMaxPerDay(e.target.value)}
+                          placeholder="e.g. 4"
+                          className="w-full p-2 bg-white border border-amber-200 rounded-lg text-sm font-bold"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ) : (
                   <div>
+                    {frequency === FrequencyType.CYCLIC && (
+                      <div className="mb-4 p-4 bg-purple-50 rounded-xl border border-purple-100">
+                        <h4 className="font-bold text-purple-800 text-sm mb-3">Cycle</h4>
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm text-purple-600">Take for</span>
+                          <input 
+                            type="number" 
+                            min="1"
+                            value={cycleOnDays}
+                            onChange={(e) => setCycleOnDays(e.target.value)}
+                            className="w-16 p-2 rounded-lg border border-purple-200 text-center font-bold"
+                          />
+                          <span className="text-sm text-purple-600">days, pause</span>
+                          <input 
+                            type="number" 
+                            min="0"
+                            value={cycleOffDays}
+                            onChange={(e) => setCycleOffDays(e.target.value)}
+                            className="w-16 p-2 rounded-lg border border-purple-200 text-center font-bold"
+                          />
+                          <span className="text-sm text-purple-600">days</span>
+                        </div>
+                        <p className="text-xs text-purple-400 mt-2">
+                          Day 1 of the first cycle is the start date. No reminders on break days.
+                        </p>
+                      </div>
+                    )}
+                    {frequency === FrequencyType.WEEKLY && (
+                      <div className="mb-4">
+                        <label className="block text-xs font-bold text-slate-400 mb-1.5 uppercase tracking-wider">Days of Week</label>
+                        <div className="flex gap-1.5">
+                          {WEEKDAYS.map((label, day) => (
+                            <button
+                              key={day}
+                              type="button"
+                              onClick={() => toggleDay(day)}
+                              className={`flex-1 py-2 rounded-lg text-xs font-bold border transition-all ${daysOfWeek.includes(day) ? 'bg-indigo-50 border-indigo-500 text-indigo-600' : 'bg-slate-50 border-slate-200 text-slate-400 hover:border-slate-300'}`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                        {daysOfWeek.length === 0 && (
+                          <p className="text-xs text-slate-400 mt-1.5">No days selected: repeats on the start date's weekday.</p>
+                        )}
+                      </div>
+                    )}
                     <label className="block text-xs font-bold text-slate-400 mb-1.5 uppercase tracking-wider">Scheduled Times</label>
                     <div className="space-y-2">
                       {times.map((time, idx) => (
@@ -710,7 +1117,85 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
                       >
                         <Plus size={16} /> Add Time
                       </button>
+                      {frequency === FrequencyType.DAILY && (
+                        <button 
+                          type="button" 
+                          onClick={startPhasedPlan}
+                          className="text-sm font-bold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 py-1 px-2 rounded-lg hover:bg-indigo-50 transition-colors"
+                        >
+                          <Layers size={16} /> Tapering / stepped dose
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Missed Dose Rules */}
+                {frequency !== FrequencyType.AS_NEEDED && (
+                  <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+                    <label className="block text-xs font-bold text-slate-500 mb-2 flex items-center gap-2">
+                      <AlarmClockOff size={14} /> Missed Dose Rules
+                    </label>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-[10px] font-bold text-slate-400 mb-1">Mark Missed After</label>
+                        <select
+                          value={graceMinutes}
+                          onChange={(e) => setGraceMinutes(Number(e.target.value))}
+                          className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-bold"
+                        >
+                          {[15, 30, 60, 120, 240].map(m => (
+                            <option key={m} value={m}>{m < 60 ? `${m} min` : `${m / 60} hour${m === 60 ? '' : 's'}`}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-[10px] font-bold text-slate-400 mb-1">If Missed</label>
+                        <select
+                          value={catchUpHours}
+                          onChange={(e) => setCatchUpHours(e.target.value)}
+                          className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-bold"
+                        >
+                          <option value="">No advice</option>
+                          <option value="0">Always skip</option>
+                          {[1, 2, 4, 6, 12].map(h => (
+                            <option key={h} value={h}>Take if within {h}h</option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
+
+                    <label className="flex items-center gap-2 mt-4 text-sm font-bold text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={!!escalation}
+                        onChange={(e) => setEscalation(e.target.checked ? DEFAULT_ESCALATION_PLAN : undefined)}
+                        className="w-4 h-4 accent-red-600"
+                      />
+                      Critical medication
+                    </label>
+                    {escalation && (
+                      <div className="grid grid-cols-3 gap-2 mt-2">
+                        {ESCALATION_STEPS.map(({ step, label }) => (
+                          <div key={step}>
+                            <label className="block text-[10px] font-bold text-slate-400 mb-1">{label}</label>
+                            <select
+                              value={escalation[step] ?? ''}
+                              onChange={(e) => setEscalation({ ...escalation, [step as EscalationStep]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                              className="w-full p-2 bg-white border border-slate-200 rounded-lg text-xs font-bold"
+                            >
+                              <option value="">Off</option>
+                              {ESCALATION_MINUTE_OPTIONS.map(m => (
+                                <option key={m} value={m}>after {m < 60 || m % 60 !== 0 ? `${m} min` : `${m / 60}h`}</option>
+                              ))}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {escalation && (
+                      <p className="text-[10px] text-slate-400 mt-2">Rings through quiet hours. Steps count from the scheduled time; the caregiver and emergency contact come from the profile settings.</p>
+                    )}
                   </div>
                 )}
                 
@@ -722,7 +1207,7 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
                    <div className="flex gap-2">
                      <select 
                        value={reminderSound}
-                       onChange={(e) => setReminderSound(e.target.value as SoundType)}
+                       onChange={(e) => setReminderSound(e.target.value as ReminderSound)}
                        className="flex-1 p-2 bg-white border border-slate-200 rounded-lg text-sm outline-none"
                      >
                        <option value="default">Default</option>
@@ -733,6 +1218,11 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
                        <option value="nature">Nature</option>
                        <option value="arcade">Arcade</option>
                        <option value="glass">Glass</option>
+                       {customSounds.length > 0 && (
+                         <optgroup label="My Recordings">
+                           {customSounds.map(s => <option key={s.id} value={customSoundRef(s.id)}>{s.name}</option>)}
+                         </optgroup>
+                       )}
                      </select>
                      <button 
                        type="button"
@@ -742,6 +1232,33 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ isOpen, onClose
                        <Play size={18} />
                      </button>
                    </div>
+                   {frequency !== FrequencyType.AS_NEEDED && (
+                     <div className="grid grid-cols-2 gap-2 mt-3">
+                       <div>
+                         <label className="block text-[10px] font-bold text-slate-400 mb-1">Repeat Until Logged</label>
+                         <select
+                           value={nag?.everyMinutes ?? ''}
+                           onChange={(e) => setNag(e.target.value === '' ? undefined : { maxRepeats: nag?.maxRepeats ?? 3, everyMinutes: Number(e.target.value) })}
+                           className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm outline-none"
+                         >
+                           <option value="">Off</option>
+                           {NAG_INTERVAL_OPTIONS.map(m => <option key={m} value={m}>Every {m} min</option>)}
+                         </select>
+                       </div>
+                       {nag && (
+                         <div>
+                           <label className="block text-[10px] font-bold text-slate-400 mb-1">Up To</label>
+                           <select
+                             value={nag.maxRepeats}
+                             onChange={(e) => setNag({ ...nag, maxRepeats: Number(e.target.value) })}
+                             className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm outline-none"
+                           >
+                             {NAG_REPEAT_OPTIONS.map(n => <option key={n} value={n}>{n} time{n === 1 ? '' : 's'}</option>)}
+                           </select>
+                         </div>
+                       )}
+                     </div>
+                   )}
                 </div>
 
                 <div>
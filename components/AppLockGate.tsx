@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Lock, Loader2, Pill } from 'lucide-react';
+import { AppLockConfig, getAppLockConfig, unlockApp, lockApp } from '../services/appLockService';
+import { showLockedReminders } from '../services/backgroundReminderService';
+
+export interface AppLockControls {
+  config: AppLockConfig | null;
+  lockNow: () => void;
+  onConfigChange: (config: AppLockConfig | null) => void;
+}
+
+interface AppLockGateProps {
+  children: (lock: AppLockControls) => React.ReactNode;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'];
+
+// Shows the unlock screen before the app when a lock is set up, and again after inactivity.
+// While locked the app is unmounted and the key dropped, so no decrypted data stays in memory
+// or on screen; reminders keep coming from the stored schedule, with generic text.
+const AppLockGate: React.FC<AppLockGateProps> = ({ children }) => {
+  const [status, setStatus] = useState<'checking' | 'locked' | 'unlocked'>('checking');
+  const [config, setConfig] = useState<AppLockConfig | null>(null);
+  const [lockError, setLockError] = useState<string | null>(null);
+  const lastActivityRef = useRef(Date.now());
+
+  const lock = () => {
+    setStatus('locked');
+    lockApp().catch(e => {
+      console.error('Could not save changes before locking', e);
+      setLockError('Your latest change could not be saved before MediMind locked. Please check it after unlocking.');
+    });
+  };
+
+  useEffect(() => {
+    getAppLockConfig()
+      .then(stored => {
+        setConfig(stored || null);
+        if (stored) lock();
+        else setStatus('unlocked');
+      })
+      .catch(e => {
+        // The app reports storage problems itself
+        console.error('Could not read app lock settings', e);
+        setStatus('unlocked');
+      });
+  }, []);
+
+  // Auto-lock after inactivity, checked on a timer so time spent in the background counts too
+  useEffect(() => {
+    if (!config || status !== 'unlocked') return;
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    markActive();
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, markActive, { passive: true }));
+
+    const intervalId = setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= config.autoLockMinutes * 60000) lock();
+    }, 15000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, markActive));
+      clearInterval(intervalId);
+    };
+  }, [config, status]);
+
+  // Stand in for the app's reminder loop while it's locked away
+  useEffect(() => {
+    if (!config || status !== 'locked') return;
+    let checkedAt = Date.now();
+    const intervalId = setInterval(() => {
+      const now = Date.now();
+      showLockedReminders(checkedAt, now).catch(e => console.error('Could not show reminders while locked', e));
+      checkedAt = now;
+    }, 5000);
+    return () => clearInterval(intervalId);
+  }, [config, status]);
+
+  const handleUnlocked = () => {
+    setLockError(null);
+    setStatus('unlocked');
+  };
+
+  if (status === 'checking') return null;
+
+  const controls: AppLockControls = {
+    config,
+    lockNow: () => { if (config) lock(); },
+    onConfigChange: setConfig
+  };
+
+  return (
+    <>
+      {status === 'unlocked' && children(controls)}
+      {status === 'locked' && config && <LockScreen config={config} notice={lockError} onUnlocked={handleUnlocked} />}
+    </>
+  );
+};
+
+const LockScreen: React.FC<{ config: AppLockConfig; notice: string | null; onUnlocked: () => void }> = ({ config, notice, onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsChecking(true);
+    setError(null);
+    const ok = await unlockApp(config, passphrase);
+    setIsChecking(false);
+    if (ok) {
+      setPassphrase('');
+      onUnlocked();
+    } else {
+      setError('Wrong passphrase. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#f1f5f9] flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-[2rem] shadow-xl border border-slate-100 p-8 w-full max-w-sm text-center">
+        <div className="bg-blue-500 text-white p-3 rounded-2xl shadow-lg shadow-blue-200 inline-flex mb-4">
+          <Pill size={28} />
+        </div>
+        <h1 className="text-xl font-bold text-slate-800 mb-1">MediMind is locked</h1>
+        <p className="text-sm text-slate-400 mb-6">Enter your passphrase to continue.</p>
+        {notice && <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2 font-medium mb-3">{notice}</p>}
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-center outline-none focus:border-blue-500 mb-3"
+        />
+        {error && <p className="text-xs text-red-600 font-medium mb-3">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isChecking}
+          className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isChecking ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} Unlock
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AppLockGate;
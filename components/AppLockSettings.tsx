@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, Loader2, Timer } from 'lucide-react';
+import { AppLockControls } from './AppLockGate';
+import { AUTO_LOCK_OPTIONS, DEFAULT_AUTO_LOCK_MINUTES, enableAppLock, disableAppLock, setAutoLockMinutes } from '../services/appLockService';
+import { isCryptoAvailable } from '../services/cryptoService';
+
+interface AppLockSettingsProps {
+  appLock: AppLockControls;
+}
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+const formatMinutes = (m: number) => m < 60 ? `${m} min` : `${m / 60} hour`;
+
+const AppLockSettings: React.FC<AppLockSettingsProps> = ({ appLock }) => {
+  const { config, lockNow, onConfigChange } = appLock;
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [autoLock, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isCryptoAvailable()) {
+    return <p className="text-sm text-slate-500">App lock needs a secure (https) connection in a modern browser.</p>;
+  }
+
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    if (passphrase !== confirm) return setError("Passphrases don't match.");
+    setIsWorking(true);
+    setError(null);
+    try {
+      onConfigChange(await enableAppLock(passphrase, autoLock));
+      setPassphrase('');
+      setConfirm('');
+    } catch (e) {
+      console.error('Enabling app lock failed', e);
+      setError('Could not turn on the app lock. Please try again.');
+    }
+    setIsWorking(false);
+  };
+
+  const handleDisable = async () => {
+    if (!config || !passphrase) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (await disableAppLock(config, passphrase)) {
+        onConfigChange(null);
+        setPassphrase('');
+      } else {
+        setError('Wrong passphrase.');
+      }
+    } catch (e) {
+      console.error('Disabling app lock failed', e);
+      setError('Could not turn off the app lock. Please try again.');
+    }
+    setIsWorking(false);
+  };
+
+  const handleAutoLockChange = async (minutes: number) => {
+    if (!config) return;
+    onConfigChange(await setAutoLockMinutes(config, minutes));
+  };
+
+  const inputClass = 'w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className={`p-4 rounded-xl border ${config ? 'bg-green-50 border-green-100' : 'bg-slate-50 border-slate-200'}`}>
+        <p className={`font-bold text-sm flex items-center gap-2 ${config ? 'text-green-800' : 'text-slate-700'}`}>
+          {config ? <Lock size={16} /> : <Unlock size={16} />} App lock is {config ? 'on' : 'off'}
+        </p>
+        <p className="text-xs text-slate-500 mt-1">
+          {config
+            ? 'Your data is encrypted on this device. Reminders show no medication details while the app is locked.'
+            : 'Require a passphrase to open MediMind and encrypt your health data on this device.'}
+        </p>
+      </div>
+
+      {config ? (
+        <>
+          <div className="bg-white border border-slate-200 rounded-xl p-4">
+            <label className="block text-xs font-bold text-slate-500 mb-2 flex items-center gap-2">
+              <Timer size={14} /> Lock After Inactivity
+            </label>
+            <select
+              value={config.autoLockMinutes}
+              onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+              className={inputClass}
+            >
+              {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{formatMinutes(m)}</option>)}
+            </select>
+            <button onClick={lockNow} className="w-full mt-3 py-2.5 bg-slate-800 text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2">
+              <Lock size={16} /> Lock Now
+            </button>
+          </div>
+
+          <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-2">
+            <h3 className="font-bold text-slate-700 text-sm">Turn Off App Lock</h3>
+            <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Current passphrase" className={inputClass} />
+            {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+            <button
+              onClick={handleDisable}
+              disabled={!passphrase || isWorking}
+              className="w-full py-2.5 bg-red-50 text-red-600 border border-red-100 rounded-lg font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Unlock size={16} />} Turn Off
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-2">
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="New passphrase" className={inputClass} />
+          <input type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} placeholder="Confirm passphrase" className={inputClass} />
+          <label className="block text-xs font-bold text-slate-500 pt-1">Lock After Inactivity</label>
+          <select value={autoLock} onChange={(e) => setAutoLock(Number(e.target.value))} className={inputClass}>
+            {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{formatMinutes(m)}</option>)}
+          </select>
+          <p className="text-xs text-slate-400">If you forget the passphrase your data can't be recovered, so keep a backup.</p>
+          {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+          <button
+            onClick={handleEnable}
+            disabled={isWorking}
+            className="w-full py-3 bg-blue-600 text-white rounded-lg font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isWorking ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} Turn On App Lock
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AppLockSettings;
@@ -0,0 +1,262 @@
+import React, { useState, useRef } from 'react';
+import { Download, Upload, Lock, Loader2, AlertTriangle, Check, FileJson } from 'lucide-react';
+import { STORE_NAMES } from '../services/storageService';
+import {
+  BackupData, BackupFileInfo, RestoreMode, ConflictPolicy, STORE_LABELS,
+  createBackup, downloadBackup, inspectBackup, readBackup, restoreBackup, countConflicts
+} from '../services/backupService';
+import { isCryptoAvailable } from '../services/cryptoService';
+
+interface BackupSettingsProps {
+  getBackupData: () => Promise<BackupData>;
+  onRestoreBackup: (data: BackupData) => Promise<void>;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const BackupSettings: React.FC<BackupSettingsProps> = ({ getBackupData, onRestoreBackup }) => {
+  // Export
+  const [encryptExport, setEncryptExport] = useState(true);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportConfirm, setExportConfirm] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Import
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [fileInfo, setFileInfo] = useState<BackupFileInfo | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [incoming, setIncoming] = useState<BackupData | null>(null);
+  const [current, setCurrent] = useState<BackupData | null>(null); // what's on this device, to compare against
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('keep-existing');
+
+  const canEncrypt = isCryptoAvailable();
+  const passphraseProblem = encryptExport && canEncrypt
+    ? exportPassphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+      : exportPassphrase !== exportConfirm ? "Passphrases don't match." : null
+    : null;
+
+  const handleExport = async () => {
+    if (passphraseProblem) return;
+    setIsExporting(true);
+    try {
+      const encrypted = encryptExport && canEncrypt;
+      const contents = await createBackup(await getBackupData(), encrypted ? exportPassphrase : undefined);
+      downloadBackup(contents, encrypted);
+      setExportPassphrase('');
+      setExportConfirm('');
+    } catch (e) {
+      console.error('Backup failed', e);
+      alert('Could not create the backup. Please try again.');
+    }
+    setIsExporting(false);
+  };
+
+  const resetImport = () => {
+    setFileText(null);
+    setFileInfo(null);
+    setIncoming(null);
+    setCurrent(null);
+    setImportPassphrase('');
+    setImportError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    resetImport();
+    const text = await file.text();
+    try {
+      const info = inspectBackup(text);
+      setFileText(text);
+      setFileInfo(info);
+      if (!info.encrypted) await handleRead(text);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  };
+
+  const handleRead = async (text: string, passphrase?: string) => {
+    setIsReading(true);
+    setImportError(null);
+    try {
+      const [data, existing] = await Promise.all([readBackup(text, passphrase), getBackupData()]);
+      setIncoming(data);
+      setCurrent(existing);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+    setIsReading(false);
+  };
+
+  const handleRestore = async () => {
+    if (!incoming || !current) return;
+    if (mode === 'replace' && !window.confirm('Replace ALL data on this device with the backup? This cannot be undone.')) return;
+    setIsRestoring(true);
+    try {
+      await onRestoreBackup(restoreBackup(current, incoming, mode, conflictPolicy));
+      resetImport();
+      alert('Backup restored successfully!');
+    } catch (e) {
+      console.error('Restore failed', e);
+      setImportError('Could not restore the backup. Please try again.');
+    }
+    setIsRestoring(false);
+  };
+
+  const conflicts = incoming && current ? countConflicts(current, incoming) : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Export */}
+      <div className="bg-white border border-slate-200 rounded-xl p-4">
+        <h3 className="font-bold text-slate-700 mb-1 flex items-center gap-2">
+          <Download size={18} className="text-blue-500" /> Create Backup
+        </h3>
+        <p className="text-xs text-slate-400 mb-4">Saves every profile, medication, log, vital, appointment, mood and goal to one file.</p>
+
+        {canEncrypt && (
+          <label className="flex items-center gap-2 text-sm font-bold text-slate-600 mb-3">
+            <input type="checkbox" checked={encryptExport} onChange={(e) => setEncryptExport(e.target.checked)} />
+            <Lock size={14} /> Encrypt with a passphrase
+          </label>
+        )}
+        {encryptExport && canEncrypt && (
+          <div className="space-y-2 mb-3">
+            <input
+              type="password"
+              value={exportPassphrase}
+              onChange={(e) => setExportPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500"
+            />
+            <input
+              type="password"
+              value={exportConfirm}
+              onChange={(e) => setExportConfirm(e.target.value)}
+              placeholder="Confirm passphrase"
+              className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500"
+            />
+            <p className="text-xs text-slate-400">
+              {exportPassphrase && passphraseProblem ? passphraseProblem : "There's no way to recover the backup without this passphrase."}
+            </p>
+          </div>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={isExporting || !!passphraseProblem}
+          className="w-full py-3 bg-blue-600 text-white rounded-lg font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />} Download Backup
+        </button>
+      </div>
+
+      {/* Import */}
+      <div className="bg-white border border-slate-200 rounded-xl p-4">
+        <h3 className="font-bold text-slate-700 mb-1 flex items-center gap-2">
+          <Upload size={18} className="text-teal-500" /> Restore Backup
+        </h3>
+        <p className="text-xs text-slate-400 mb-4">Bring data over from another device or an earlier backup.</p>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="w-full text-sm text-slate-500 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-slate-100 file:text-slate-700 file:font-bold"
+        />
+
+        {fileInfo && (
+          <p className="text-xs text-slate-500 mt-3 flex items-center gap-1.5">
+            <FileJson size={14} /> Created {new Date(fileInfo.createdAt).toLocaleString()}{fileInfo.encrypted && ' · encrypted'}
+          </p>
+        )}
+
+        {fileInfo?.encrypted && !incoming && (
+          <div className="flex gap-2 mt-3">
+            <input
+              type="password"
+              value={importPassphrase}
+              onChange={(e) => setImportPassphrase(e.target.value)}
+              placeholder="Backup passphrase"
+              className="flex-1 p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={() => handleRead(fileText!, importPassphrase)}
+              disabled={!importPassphrase || isReading}
+              className="px-4 bg-slate-800 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              {isReading ? <Loader2 size={16} className="animate-spin" /> : <Lock size={16} />} Unlock
+            </button>
+          </div>
+        )}
+
+        {importError && (
+          <div className="mt-3 p-3 bg-red-50 text-red-700 rounded-lg text-xs font-medium flex items-start gap-2">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {importError}
+          </div>
+        )}
+
+        {incoming && (
+          <div className="mt-4 space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {STORE_NAMES.map(store => (
+                <div key={store} className="bg-slate-50 rounded-lg px-3 py-2 flex justify-between text-xs">
+                  <span className="text-slate-500">{STORE_LABELS[store]}</span>
+                  <span className="font-bold text-slate-700">{incoming[store].length}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              {(['merge', 'replace'] as RestoreMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`flex-1 py-2 rounded-md text-sm font-bold transition-all ${mode === m ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {m === 'merge' ? 'Merge' : 'Replace All'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'merge' && conflicts > 0 && (
+              <div className="p-3 bg-amber-50 border border-amber-100 rounded-lg">
+                <p className="text-xs font-bold text-amber-800 mb-2">
+                  {conflicts} item{conflicts === 1 ? '' : 's'} already exist on this device. Keep which version?
+                </p>
+                <div className="flex gap-4 text-xs text-amber-900">
+                  <label className="flex items-center gap-1.5">
+                    <input type="radio" checked={conflictPolicy === 'keep-existing'} onChange={() => setConflictPolicy('keep-existing')} /> This device
+                  </label>
+                  <label className="flex items-center gap-1.5">
+                    <input type="radio" checked={conflictPolicy === 'use-backup'} onChange={() => setConflictPolicy('use-backup')} /> Backup
+                  </label>
+                </div>
+              </div>
+            )}
+            {mode === 'replace' && (
+              <p className="text-xs text-red-600 font-medium">Everything currently on this device will be replaced by the backup.</p>
+            )}
+
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className={`w-full py-3 text-white rounded-lg font-bold flex items-center justify-center gap-2 disabled:opacity-50 ${mode === 'replace' ? 'bg-red-600' : 'bg-teal-600'}`}
+            >
+              {isRestoring ? <Loader2 size={18} className="animate-spin" /> : <Check size={18} />} Restore
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -0,0 +1,173 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, Square, Upload, Play, Trash2, AlertTriangle, AudioLines } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { CustomSound } from '../types';
+import { MAX_CLIP_SECONDS, getRecordingMimeType, getClipDuration, playCustomSound } from '../services/audioService';
+
+interface CustomSoundSettingsProps {
+  sounds: CustomSound[];
+  onAdd: (sound: CustomSound) => void;
+  onDelete: (id: string) => void;
+}
+
+// Clips are kept in the database as data URLs, so uploads are capped well below anything heavy
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Record or upload reminder clips; medications and profiles pick them like the built-in sounds
+const CustomSoundSettings: React.FC<CustomSoundSettingsProps> = ({ sounds, onAdd, onDelete }) => {
+  const [name, setName] = useState('');
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const stopTimerRef = useRef<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Let go of the microphone if the settings close mid-recording
+  useEffect(() => () => {
+    if (stopTimerRef.current) window.clearTimeout(stopTimerRef.current);
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(t => t.stop());
+    }
+  }, []);
+
+  const saveClip = async (data: string, fallbackName: string) => {
+    try {
+      const duration = await getClipDuration(data);
+      if (duration > MAX_CLIP_SECONDS) {
+        setError(`Clips can be up to ${MAX_CLIP_SECONDS} seconds long.`);
+        return;
+      }
+    } catch (e) {
+      setError('This audio could not be played in this browser.');
+      return;
+    }
+    onAdd({ id: uuidv4(), name: name.trim() || fallbackName, data, createdAt: Date.now() });
+    setName('');
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = getRecordingMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      mediaRecorderRef.current = recorder;
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        setIsRecording(false);
+        const data = await readAsDataUrl(new Blob(chunks, { type: mimeType || 'audio/webm' }));
+        await saveClip(data, `Recording ${sounds.length + 1}`);
+      };
+
+      recorder.start();
+      setIsRecording(true);
+      stopTimerRef.current = window.setTimeout(stopRecording, MAX_CLIP_SECONDS * 1000);
+    } catch (e) {
+      console.error('Error accessing microphone:', e);
+      setError('Could not access the microphone. Please check permissions.');
+    }
+  };
+
+  const stopRecording = () => {
+    if (stopTimerRef.current) window.clearTimeout(stopTimerRef.current);
+    stopTimerRef.current = null;
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    setError(null);
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setError('That file is too large. Choose a clip under 2 MB.');
+      return;
+    }
+    await saveClip(await readAsDataUrl(file), file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const canRecord = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4">
+      <h3 className="font-bold text-slate-700 mb-1 flex items-center gap-2">
+        <AudioLines size={18} className="text-purple-500" /> My Recordings
+      </h3>
+      <p className="text-xs text-slate-400 mb-4">
+        Record a familiar voice or upload a clip (up to {MAX_CLIP_SECONDS} seconds), then choose it as a medication's or profile's reminder sound. Clips stay on this device.
+      </p>
+
+      <input
+        type="text"
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Name, e.g. Sarah's reminder"
+        className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500 mb-3"
+      />
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          type="button"
+          onClick={isRecording ? stopRecording : startRecording}
+          disabled={!canRecord}
+          className={`py-2.5 rounded-lg font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-50 ${isRecording ? 'bg-red-600 text-white animate-pulse' : 'bg-purple-600 text-white'}`}
+        >
+          {isRecording ? <><Square size={16} /> Stop</> : <><Mic size={16} /> Record</>}
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRecording}
+          className="py-2.5 bg-slate-100 text-slate-700 rounded-lg font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-200 disabled:opacity-50"
+        >
+          <Upload size={16} /> Upload
+        </button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="audio/*" onChange={handleFileChange} className="hidden" />
+
+      {error && (
+        <div className="p-3 mt-3 bg-red-50 text-red-700 rounded-lg text-xs font-medium flex items-start gap-2">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+        </div>
+      )}
+
+      {sounds.length > 0 && (
+        <div className="space-y-2 mt-4">
+          {sounds.map(sound => (
+            <div key={sound.id} className="flex items-center gap-2 bg-slate-50 rounded-lg p-2">
+              <button type="button" onClick={() => playCustomSound(sound)} className="p-2 bg-white border border-slate-200 rounded-lg text-blue-500 hover:bg-blue-50">
+                <Play size={14} />
+              </button>
+              <span className="flex-1 text-sm text-slate-700 truncate">{sound.name}</span>
+              <button
+                type="button"
+                onClick={() => confirm(`Delete "${sound.name}"? Medications using it go back to the default sound.`) && onDelete(sound.id)}
+                className="p-2 text-slate-400 hover:text-red-500"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomSoundSettings;
@@ -2,8 +2,13 @@
 import React, { useMemo, useEffect, useRef, useState } from 'react';
 import { Medication, LogEntry, FrequencyType, MoodType, MoodEntry, SnoozeEntry, WellnessGoal } from '../types';
 import MedicationCard from './MedicationCard';
+import { formatStockAmount, isLowStock } from '../services/inventoryService';
+import { getDoseTimesForDate, getDosageForDate, isCourseComplete, countTakenDoses, parseDateStr } from '../services/scheduleService';
+import { getCatchUpAdvice } from '../services/adherenceService';
+import { getTimeSlot } from '../services/punctualityService';
+import { getStreak } from '../services/streakService';
 import { format } from 'date-fns';
-import { AlertTriangle, Check, Flame, CalendarClock, Sunrise, Sun, Moon, Coffee, Clock, Smile, Meh, Frown, ThumbsUp, Activity, Plus, Droplet, Utensils, Footprints, Brain, Dumbbell, X, Target, Trash2 } from 'lucide-react';
+import { AlertTriangle, Check, CheckCircle2, Flame, CalendarClock, Sunrise, Sun, Moon, Coffee, Clock, Smile, Meh, Frown, ThumbsUp, Activity, Plus, Droplet, Utensils, Footprints, Brain, Dumbbell, X, Target, Trash2, PauseCircle, AlarmClockOff } from 'lucide-react';
 import { motion, AnimatePresence, useMotionValue, useTransform, animate } from 'framer-motion';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -42,7 +47,29 @@ const Dashboard: React.FC<DashboardProps> = ({
   const [newGoalUnit, setNewGoalUnit] = useState('');
   const [newGoalIcon, setNewGoalIcon] = useState<WellnessGoal['icon']>('water');
 
-  const lowStockMeds = useMemo(() => medications.filter(m => m.currentStock <= m.lowStockThreshold), [medications]);
+  // Fixed-length courses that have run their full length
+  const completedMedIds = useMemo(() => new Set(
+    medications
+      .filter(m => isCourseComplete(m, countTakenDoses(m, logs)))
+      .map(m => m.id)
+  ), [medications, logs]);
+
+  const lowStockMeds = useMemo(() => medications.filter(m => !completedMedIds.has(m.id) && isLowStock(m)), [medications, completedMedIds]);
+
+  // Today's doses that slipped past their grace window, with catch-up advice where the med has a rule
+  const missedDoses = useMemo(() => todayLogs
+    .filter(l => l.status === 'MISSED')
+    .map(log => {
+      const med = medications.find(m => m.id === log.medicationId);
+      if (!med) return null;
+      const [h, m] = log.scheduledTime.split(':').map(Number);
+      const scheduledAt = parseDateStr(log.dateStr);
+      scheduledAt.setHours(h, m, 0, 0);
+      return { log, med, advice: getCatchUpAdvice(med, scheduledAt.getTime()) };
+    })
+    .filter((d): d is NonNullable<typeof d> => d !== null)
+    .sort((a, b) => a.log.scheduledTime.localeCompare(b.log.scheduledTime)),
+  [todayLogs, medications]);
 
   // Greeting Logic
   const getGreeting = () => {
@@ -53,23 +80,17 @@ const Dashboard: React.FC<DashboardProps> = ({
   };
 
   // Streak Calculation
-  const streakDays = useMemo(() => {
-    const hasTakenToday = todayLogs.some(l => l.status === 'TAKEN');
-    const baseStreak = 12; // Mock base streak for demo
-    return hasTakenToday ? baseStreak + 1 : baseStreak;
-  }, [todayLogs]);
+  const streak = useMemo(() => getStreak(medications, logs), [medications, logs]);
 
   // Daily Progress Calculation
   const progressStats = useMemo(() => {
-    let totalScheduled = 0;
-    medications.forEach(m => {
-       if (m.frequency === 'DAILY') totalScheduled += m.times.length;
-       // Simplify for other types
-    });
+    const today = new Date();
+    const totalScheduled = medications.reduce((sum, m) => sum + getDoseTimesForDate(m, today).length, 0);
     const taken = todayLogs.filter(l => l.status === 'TAKEN').length;
     const skipped = todayLogs.filter(l => l.status === 'SKIPPED').length;
+    const missed = todayLogs.filter(l => l.status === 'MISSED').length;
     const progress = totalScheduled > 0 ? Math.round((taken / totalScheduled) * 100) : 0;
-    return { taken, totalScheduled, progress, skipped };
+    return { taken, totalScheduled, progress, skipped, missed };
   }, [medications, todayLogs]);
 
   // Progress Animation
@@ -99,9 +120,7 @@ const Dashboard: React.FC<DashboardProps> = ({
     let upcoming: { med: Medication, time: string, diff: number } | null = null;
 
     medications.forEach(med => {
-      if (med.frequency === FrequencyType.AS_NEEDED) return;
-      
-      med.times.forEach(time => {
+      getDoseTimesForDate(med, now).forEach(time => {
         const [h, m] = time.split(':').map(Number);
         const timeMinutes = h * 60 + m;
         
@@ -129,27 +148,41 @@ const Dashboard: React.FC<DashboardProps> = ({
       morning: [] as Medication[],
       afternoon: [] as Medication[],
       evening: [] as Medication[],
-      asNeeded: [] as Medication[]
+      asNeeded: [] as Medication[],
+      offToday: [] as Medication[],
+      completed: [] as Medication[]
     };
+    const today = new Date();
 
     medications.forEach(med => {
+      if (completedMedIds.has(med.id)) {
+        groups.completed.push(med);
+        return;
+      }
+
       if (med.frequency === FrequencyType.AS_NEEDED) {
         groups.asNeeded.push(med);
         return;
       }
       
-      if (med.times.length > 0) {
-        const firstTime = med.times[0];
-        const hour = parseInt(firstTime.split(':')[0]);
-        
-        if (hour < 12) groups.morning.push(med);
-        else if (hour < 17) groups.afternoon.push(med);
-        else groups.evening.push(med);
+      // Prefer today's actual slots so weekly / interval meds land in the right group
+      const todaysTimes = getDoseTimesForDate(med, today);
+
+      // Started but resting today (cyclic break days, other weekdays)
+      if (todaysTimes.length === 0 && !(med.startDate && med.startDate > todayStr)) {
+        groups.offToday.push(med);
+        return;
+      }
+
+      const slotTimes = todaysTimes.length > 0 ? todaysTimes : [...med.times].sort();
+
+      if (slotTimes.length > 0) {
+        groups[getTimeSlot(slotTimes[0])].push(med);
       }
     });
 
     return groups;
-  }, [medications]);
+  }, [medications, completedMedIds, todayStr]);
 
   const handleAddGoalSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -201,6 +234,8 @@ const Dashboard: React.FC<DashboardProps> = ({
                     onUpdate={onUpdateMedication}
                     onSnooze={onSnoozeMedication}
                     todayLogs={todayLogs.filter(log => log.medicationId === med.id)}
+                    courseDosesTaken={countTakenDoses(med, logs)}
+                    prnLogs={med.frequency === FrequencyType.AS_NEEDED ? logs.filter(log => log.medicationId === med.id) : undefined}
                     snoozeUntil={snoozeEntry ? snoozeEntry.wakeUpTime : undefined}
                   />
                 </motion.div>
@@ -273,6 +308,12 @@ const Dashboard: React.FC<DashboardProps> = ({
         <div>
           <h1 className="text-3xl font-bold text-slate-800 tracking-tight mb-1">{getGreeting()},</h1>
           <h2 className="text-xl text-slate-500 font-medium">{userName}</h2>
+          {streak.current > 0 && (
+            <div className="mt-2 inline-flex items-center gap-1.5 bg-orange-50 text-orange-600 border border-orange-100 px-2.5 py-1 rounded-full text-xs font-bold">
+              <Flame size={14} /> {streak.current} day streak
+              {streak.longest > streak.current && <span className="text-orange-400 font-medium">· best {streak.longest}</span>}
+            </div>
+          )}
         </div>
         
         {!isEmpty && (
@@ -331,7 +372,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                           <Clock size={12} /> Next Up • {nextDose.time}
                         </div>
                         <h3 className="text-3xl font-bold mb-1 tracking-tight">{nextDose.med.name}</h3>
-                        <p className="text-blue-100 text-lg opacity-90 font-medium">{nextDose.med.dosage}</p>
+                        <p className="text-blue-100 text-lg opacity-90 font-medium">{getDosageForDate(nextDose.med, new Date())}</p>
                         
                         {nextDose.med.notes && (
                           <div className="mt-4 flex items-center gap-2 text-sm text-blue-50 bg-black/10 p-2 px-3 rounded-lg inline-block backdrop-blur-sm">
@@ -468,6 +509,57 @@ const Dashboard: React.FC<DashboardProps> = ({
         </div>
       </div>
 
+      {/* Missed Doses Alert */}
+      <AnimatePresence>
+        {missedDoses.length > 0 && (
+          <motion.div 
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="bg-gradient-to-r from-amber-50 to-yellow-50 border border-amber-100 rounded-[1.5rem] p-5 flex flex-col gap-3 relative overflow-hidden"
+          >
+            <div className="flex items-center gap-3">
+              <div className="bg-white p-2.5 rounded-full text-amber-500 shadow-sm border border-amber-100">
+                <AlarmClockOff size={20} />
+              </div>
+              <div>
+                 <h3 className="font-bold text-amber-900 text-sm leading-tight">Missed Doses</h3>
+                 <p className="text-amber-700/80 text-xs font-medium">{missedDoses.length} dose{missedDoses.length === 1 ? '' : 's'} went unlogged today.</p>
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              {missedDoses.map(({ log, med, advice }) => (
+                <div key={log.id} className="bg-white p-3 rounded-xl border border-amber-200 shadow-sm flex flex-col gap-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="text-sm font-bold text-slate-800">
+                      {med.name} <span className="text-slate-400 font-medium">· due {log.scheduledTime}</span>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => onLogMedication(med.id, 'TAKEN', log.scheduledTime)}
+                        className={`text-xs font-bold px-3 py-1.5 rounded-lg transition-colors ${advice?.action === 'skip' ? 'bg-slate-100 text-slate-600 hover:bg-slate-200' : 'bg-emerald-500 text-white hover:bg-emerald-600'}`}
+                      >
+                        Take Now
+                      </button>
+                      <button
+                        onClick={() => onLogMedication(med.id, 'SKIPPED', log.scheduledTime)}
+                        className={`text-xs font-bold px-3 py-1.5 rounded-lg transition-colors ${advice?.action === 'skip' ? 'bg-amber-500 text-white hover:bg-amber-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                      >
+                        Skip
+                      </button>
+                    </div>
+                  </div>
+                  {advice && (
+                    <p className={`text-xs font-medium ${advice.action === 'take' ? 'text-emerald-700' : 'text-amber-700'}`}>{advice.message}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Refill Alert */}
       <AnimatePresence>
         {lowStockMeds.length > 0 && (
@@ -494,7 +586,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                 <div key={med.id} className="flex items-center justify-between gap-3 text-xs font-bold text-red-700 bg-white p-2 px-3 rounded-lg border border-red-200 shadow-sm">
                   <div className="flex items-center gap-2">
                      <span>{med.name}</span>
-                     <span className="text-[10px] bg-red-100 text-red-600 px-1.5 py-0.5 rounded font-bold uppercase tracking-wider">{med.currentStock} Left</span>
+                     <span className="text-[10px] bg-red-100 text-red-600 px-1.5 py-0.5 rounded font-bold uppercase tracking-wider">{formatStockAmount(med.currentStock, med.stockUnit)} Left</span>
                   </div>
                 </div>
               ))}
@@ -518,6 +610,8 @@ const Dashboard: React.FC<DashboardProps> = ({
           {renderSection('Afternoon', <Sun size={16} />, groupedMeds.afternoon)}
           {renderSection('Evening', <Moon size={16} />, groupedMeds.evening)}
           {renderSection('As Needed', <Coffee size={16} />, groupedMeds.asNeeded)}
+          {renderSection('Off Today', <PauseCircle size={16} />, groupedMeds.offToday)}
+          {renderSection('Completed Courses', <CheckCircle2 size={16} />, groupedMeds.completed)}
         </div>
       )}
     </div>
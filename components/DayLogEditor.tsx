@@ -0,0 +1,243 @@
+import React, { useState, useMemo } from 'react';
+import { Medication, LogEntry, LogStatus, FrequencyType } from '../types';
+import { expandSchedules, parseDateStr, toDateStr } from '../services/scheduleService';
+import { findLogForDose } from '../services/adherenceService';
+import { format, addDays, subDays } from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, Check, X, Ban, Trash2, Plus } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+
+interface DayLogEditorProps {
+  medications: Medication[];
+  logs: LogEntry[];
+  onSaveLog: (entry: LogEntry) => void;
+  onDeleteLog: (logId: string) => void;
+}
+
+interface DayRow {
+  key: string;
+  med: Medication;
+  scheduledTime?: string;
+  log?: LogEntry;
+  isScheduled: boolean; // a slot of the schedule, which the missed-dose sweep fills if left without a log
+}
+
+const statusStyles: Record<LogStatus, string> = {
+  TAKEN: 'bg-green-100 text-green-700',
+  SKIPPED: 'bg-red-100 text-red-700',
+  MISSED: 'bg-amber-100 text-amber-700'
+};
+
+// Timestamp for an "HH:mm" clock time on the given day
+const toTimestamp = (dateStr: string, time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  const d = parseDateStr(dateStr);
+  d.setHours(h, m, 0, 0);
+  return d.getTime();
+};
+
+// A taken time this far before its slot is read as the next morning (a 22:00 dose taken at 00:30)
+const NEXT_DAY_ROLLOVER_MINUTES = 12 * 60;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const isNextDay = (slot: string, taken: string) => toMinutes(slot) - toMinutes(taken) > NEXT_DAY_ROLLOVER_MINUTES;
+
+// Timestamp for a dose taken at an "HH:mm" clock time against a slot on the given day
+const toTakenTimestamp = (dateStr: string, slot: string, taken: string) =>
+  toTimestamp(isNextDay(slot, taken) ? toDateStr(addDays(parseDateStr(dateStr), 1)) : dateStr, taken);
+
+// Scheduled slot of a row as a clock time; as-needed logs store a display time instead
+const slotTime = (row: DayRow) =>
+  row.scheduledTime && /^\d{2}:\d{2}$/.test(row.scheduledTime) ? row.scheduledTime : '12:00';
+
+const DayLogEditor: React.FC<DayLogEditorProps> = ({ medications, logs, onSaveLog, onDeleteLog }) => {
+  const todayStr = toDateStr(new Date());
+  const [dateStr, setDateStr] = useState(toDateStr(subDays(new Date(), 1)));
+  // Actual taken times being edited, keyed by row
+  const [takenTimes, setTakenTimes] = useState<Record<string, string>>({});
+  const [prnMedId, setPrnMedId] = useState('');
+  const [prnTime, setPrnTime] = useState('12:00');
+
+  const asNeededMeds = medications.filter(m => m.frequency === FrequencyType.AS_NEEDED);
+
+  // Every scheduled dose of the day, plus any logs that don't belong to one (as-needed doses, old schedules)
+  const rows = useMemo(() => {
+    const day = parseDateStr(dateStr);
+    const dayLogs = logs.filter(l => l.dateStr === dateStr);
+    const result: DayRow[] = [];
+
+    expandSchedules(medications, day, addDays(day, 1)).forEach(dose => {
+      const med = medications.find(m => m.id === dose.medicationId)!;
+      const log = findLogForDose(dose, dayLogs);
+      result.push({ key: log?.id ?? `${dose.medicationId}-${dose.time}`, med, scheduledTime: dose.time, log, isScheduled: true });
+    });
+
+    dayLogs
+      .filter(l => !result.some(r => r.log?.id === l.id))
+      .forEach(log => {
+        const med = medications.find(m => m.id === log.medicationId);
+        if (med) result.push({ key: log.id, med, scheduledTime: log.scheduledTime, log, isScheduled: false });
+      });
+
+    return result;
+  }, [medications, logs, dateStr]);
+
+  const shiftDay = (days: number) => {
+    const next = toDateStr(addDays(parseDateStr(dateStr), days));
+    if (next <= todayStr) setDateStr(next);
+  };
+
+  const getTakenTime = (row: DayRow) =>
+    takenTimes[row.key] ?? (row.log?.status === 'TAKEN' ? format(row.log.timestamp, 'HH:mm') : slotTime(row));
+
+  const saveRow = (row: DayRow, status: LogStatus) => {
+    const timestamp = status === 'TAKEN'
+      ? toTakenTimestamp(dateStr, slotTime(row), getTakenTime(row))
+      : row.log?.timestamp ?? toTimestamp(dateStr, slotTime(row));
+    if (timestamp > Date.now()) {
+      alert("You can't log a dose in the future.");
+      return;
+    }
+    onSaveLog({
+      id: row.log?.id ?? uuidv4(),
+      medicationId: row.med.id,
+      timestamp,
+      status,
+      scheduledTime: row.scheduledTime,
+      dateStr
+    });
+  };
+
+  const handleAddPrn = () => {
+    if (!prnMedId) return;
+    const timestamp = toTimestamp(dateStr, prnTime);
+    if (timestamp > Date.now()) {
+      alert("You can't log a dose in the future.");
+      return;
+    }
+    onSaveLog({
+      id: uuidv4(),
+      medicationId: prnMedId,
+      timestamp,
+      status: 'TAKEN',
+      scheduledTime: new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      dateStr
+    });
+    setPrnMedId('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-4 border-b border-slate-50 font-bold text-slate-700 flex justify-between items-center">
+        <span className="flex items-center gap-2"><CalendarDays size={18} className="text-blue-500" /> Edit a Day</span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => shiftDay(-1)} className="p-1.5 rounded-lg hover:bg-slate-100 text-slate-500"><ChevronLeft size={16} /></button>
+          <input
+            type="date"
+            value={dateStr}
+            max={todayStr}
+            onChange={(e) => e.target.value && e.target.value <= todayStr && setDateStr(e.target.value)}
+            className="text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1"
+          />
+          <button onClick={() => shiftDay(1)} disabled={dateStr >= todayStr} className="p-1.5 rounded-lg hover:bg-slate-100 text-slate-500 disabled:opacity-30"><ChevronRight size={16} /></button>
+        </div>
+      </div>
+
+      <div className="divide-y divide-slate-50">
+        {rows.length === 0 ? (
+          <div className="px-6 py-8 text-center text-slate-400 italic text-sm">Nothing was scheduled on this day.</div>
+        ) : (
+          rows.map(row => (
+            <div key={row.key} className="px-4 py-3 flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-[8rem]">
+                <div className="font-bold text-slate-800 text-sm">{row.med.name}</div>
+                <div className="text-xs text-slate-400">
+                  {row.med.frequency === FrequencyType.AS_NEEDED ? `As needed${row.scheduledTime ? ` · ${row.scheduledTime}` : ''}` : `Due ${row.scheduledTime}`}
+                  {row.log && (
+                    <span className={`ml-2 px-1.5 py-0.5 rounded font-bold uppercase text-[10px] ${statusStyles[row.log.status]}`}>{row.log.status}</span>
+                  )}
+                </div>
+              </div>
+              <label className="text-[10px] font-bold text-slate-400 uppercase flex items-center gap-1">
+                Taken at
+                <input
+                  type="time"
+                  value={getTakenTime(row)}
+                  onChange={(e) => setTakenTimes(prev => ({ ...prev, [row.key]: e.target.value }))}
+                  className="text-xs font-bold text-slate-700 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1"
+                />
+                {isNextDay(slotTime(row), getTakenTime(row)) && <span className="normal-case text-slate-500">next day</span>}
+              </label>
+              <div className="flex gap-1.5">
+                <button
+                  onClick={() => saveRow(row, 'TAKEN')}
+                  className="p-2 rounded-lg bg-green-50 text-green-600 hover:bg-green-100 transition-colors"
+                  title="Mark taken"
+                >
+                  <Check size={16} />
+                </button>
+                <button
+                  onClick={() => saveRow(row, 'SKIPPED')}
+                  className="p-2 rounded-lg bg-red-50 text-red-500 hover:bg-red-100 transition-colors"
+                  title="Mark skipped"
+                >
+                  <X size={16} />
+                </button>
+                {/* A scheduled slot can't be left empty (it would be marked missed again), so it gets a status instead */}
+                {row.log && row.isScheduled && row.log.status !== 'MISSED' && (
+                  <button
+                    onClick={() => saveRow(row, 'MISSED')}
+                    className="p-2 rounded-lg bg-amber-50 text-amber-600 hover:bg-amber-100 transition-colors"
+                    title="Mark missed"
+                  >
+                    <Ban size={16} />
+                  </button>
+                )}
+                {row.log && !row.isScheduled && (
+                  <button
+                    onClick={() => onDeleteLog(row.log!.id)}
+                    className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors"
+                    title="Delete entry"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {asNeededMeds.length > 0 && (
+        <div className="p-4 bg-slate-50/50 border-t border-slate-100 flex flex-wrap items-center gap-2">
+          <select
+            value={prnMedId}
+            onChange={(e) => setPrnMedId(e.target.value)}
+            className="flex-1 min-w-[8rem] text-xs font-bold text-slate-700 bg-white border border-slate-200 rounded-lg px-2 py-2"
+          >
+            <option value="">Add an as-needed dose…</option>
+            {asNeededMeds.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <input
+            type="time"
+            value={prnTime}
+            onChange={(e) => setPrnTime(e.target.value)}
+            className="text-xs font-bold text-slate-700 bg-white border border-slate-200 rounded-lg px-2 py-2"
+          />
+          <button
+            onClick={handleAddPrn}
+            disabled={!prnMedId}
+            className="text-xs font-bold px-3 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-40 flex items-center gap-1"
+          >
+            <Plus size={14} /> Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DayLogEditor;
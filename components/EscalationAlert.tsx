@@ -0,0 +1,60 @@
+import React from 'react';
+import { Phone, ShieldAlert, Check, X } from 'lucide-react';
+import { Medication, Profile } from '../types';
+import { DoseOccurrence, getDosageForDate } from '../services/scheduleService';
+
+export interface EmergencyAlert {
+  dose: DoseOccurrence;
+  medication: Medication;
+  patient?: Profile;
+  isRedacted: boolean; // the patient's profile has a PIN nobody has entered
+}
+
+interface EscalationAlertProps {
+  alerts: EmergencyAlert[];
+  onMarkTaken: (dose: DoseOccurrence) => void;
+  onDismiss: (dose: DoseOccurrence) => void;
+}
+
+// Last step of a critical dose's escalation: stays on screen with a call button until someone acts
+const EscalationAlert: React.FC<EscalationAlertProps> = ({ alerts, onMarkTaken, onDismiss }) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[90] w-[92%] max-w-md space-y-2">
+      {alerts.map(({ dose, medication, patient, isRedacted }) => {
+        const contact = patient?.emergencyContact;
+        return (
+          <div key={`${dose.medicationId}-${dose.dateStr}-${dose.time}`} className="bg-red-600 text-white rounded-2xl shadow-2xl p-4">
+            <div className="flex items-start gap-3">
+              <ShieldAlert size={22} className="shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-sm">{patient?.name || 'User'} hasn't taken a critical dose</p>
+                <p className="text-xs text-red-100 mt-0.5">
+                  {isRedacted ? 'A dose' : `${medication.name} (${getDosageForDate(medication, new Date(dose.timestamp))})`} was due at {dose.time}.
+                </p>
+              </div>
+              <button onClick={() => onDismiss(dose)} className="p-1 text-red-200 hover:text-white">
+                <X size={16} />
+              </button>
+            </div>
+            <div className="flex gap-2 mt-3">
+              {contact?.phone ? (
+                <a href={`tel:${contact.phone}`} className="flex-1 py-2.5 bg-white text-red-600 rounded-xl font-bold text-sm flex items-center justify-center gap-2">
+                  <Phone size={16} /> Call {contact.name || contact.phone}
+                </a>
+              ) : (
+                <p className="flex-1 text-xs text-red-100 self-center">Add an emergency contact in Settings to call from here.</p>
+              )}
+              <button onClick={() => onMarkTaken(dose)} className="px-4 py-2.5 bg-red-700 rounded-xl font-bold text-sm flex items-center gap-1">
+                <Check size={16} /> Taken
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EscalationAlert;
@@ -1,43 +1,61 @@
 
 import React, { useState } from 'react';
-import { Medication, LogEntry, VitalEntry, MoodEntry, MoodType } from '../types';
-import { format, subDays } from 'date-fns';
+import { Medication, LogEntry, VitalEntry, MoodEntry, MoodType, FrequencyType, Profile, Appointment } from '../types';
+import { format, subDays, addDays, startOfDay, differenceInCalendarDays } from 'date-fns';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { Printer, CheckCircle2, FileText, Loader2, Sparkles, Copy, Smile, Meh, Frown, ThumbsUp, Activity, Heart, Clock } from 'lucide-react';
+import { Printer, CheckCircle2, FileText, Loader2, Sparkles, Copy, Smile, Meh, Frown, ThumbsUp, Activity, Heart, Clock, Flame, FileJson, FileSpreadsheet } from 'lucide-react';
 import { generateHealthReport } from '../services/geminiService';
+import { getDoseTimesForDate, parseDateStr } from '../services/scheduleService';
+import { getAdherenceSummary } from '../services/adherenceService';
+import { hasPrnLimits, getPrnUsage, describePrnLimits } from '../services/prnService';
+import { getOverallPunctuality, getMedicationPunctuality, getSlotPunctuality, formatDelay, ON_TIME_WINDOW_MINUTES, TIME_SLOT_LABELS } from '../services/punctualityService';
+import { getStreak, getMedicationStreak, SKIPPED_BREAKS_STREAK } from '../services/streakService';
+import { buildFhirBundle, downloadFhirBundle } from '../services/fhirService';
+import { logsToCsv, vitalsToCsv, downloadCsv } from '../services/csvService';
+import DayLogEditor from './DayLogEditor';
 
 interface HistoryViewProps {
   medications: Medication[];
   logs: LogEntry[];
   vitals?: VitalEntry[];
   moods?: MoodEntry[];
+  appointments?: Appointment[];
+  profile: Profile;
   userName: string;
+  onSaveLog: (entry: LogEntry) => void;
+  onDeleteLog: (logId: string) => void;
 }
 
-const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [], moods = [], userName }) => {
+const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [], moods = [], appointments = [], profile, userName, onSaveLog, onDeleteLog }) => {
   const [report, setReport] = useState<string | null>(null);
   const [generating, setGenerating] = useState(false);
+  // Adherence period, inclusive YYYY-MM-DD bounds
+  const [rangeStart, setRangeStart] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [rangeEnd, setRangeEnd] = useState(format(new Date(), 'yyyy-MM-dd'));
 
   // Generate last 7 days of data for Chart
+  const now = new Date();
   const data = Array.from({ length: 7 }).map((_, i) => {
-    const date = subDays(new Date(), 6 - i);
+    const date = startOfDay(subDays(now, 6 - i));
     const dateStr = format(date, 'yyyy-MM-dd');
     const dayLogs = logs.filter(l => l.dateStr === dateStr);
     
     const taken = dayLogs.filter(l => l.status === 'TAKEN').length;
     const skipped = dayLogs.filter(l => l.status === 'SKIPPED').length;
+    const missedLogged = dayLogs.filter(l => l.status === 'MISSED').length;
     
-    let totalScheduled = 0;
-    medications.forEach(med => {
-        if (med.frequency === 'DAILY') totalScheduled += med.times.length;
-    });
+    const totalScheduled = medications.reduce((sum, med) => sum + getDoseTimesForDate(med, date).length, 0);
+
+    // Same rule as the adherence figures: unlogged doses only count once past their grace window and since tracking began
+    const missed = getAdherenceSummary(medications, logs, date, addDays(date, 1), now).overall.missed;
 
     return {
       name: format(date, 'EEE'),
       fullDate: format(date, 'MMM do'),
       taken,
       skipped,
-      total: Math.max(taken + skipped, totalScheduled) 
+      missed,
+      total: Math.max(taken + skipped + missedLogged, totalScheduled) 
     };
   });
 
@@ -77,9 +95,50 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
   const latestBP = vitals.filter(v => v.type === 'BLOOD_PRESSURE').sort((a,b) => b.timestamp - a.timestamp)[0];
   const latestWeight = vitals.filter(v => v.type === 'WEIGHT').sort((a,b) => b.timestamp - a.timestamp)[0];
 
-  const totalTaken = logs.filter(l => l.status === 'TAKEN').length;
-  const totalLogs = logs.length;
-  const adherenceRate = totalLogs > 0 ? Math.round((totalTaken / totalLogs) * 100) : 100;
+  // Taken over scheduled for the selected period, from the expanded schedule rather than from whatever happened to be logged
+  const adherence = getAdherenceSummary(medications, logs, parseDateStr(rangeStart), addDays(parseDateStr(rangeEnd), 1));
+  const adherenceRate = adherence.overall.rate;
+  const rangeDays = differenceInCalendarDays(parseDateStr(rangeEnd), parseDateStr(rangeStart)) + 1;
+
+  const selectRangePreset = (days: number) => {
+    setRangeStart(format(subDays(new Date(), days - 1), 'yyyy-MM-dd'));
+    setRangeEnd(format(new Date(), 'yyyy-MM-dd'));
+  };
+
+  // As-needed meds with safety limits and how often they were exceeded in the selected period
+  const prnUsage = medications
+    .filter(m => m.frequency === FrequencyType.AS_NEEDED && hasPrnLimits(m))
+    .map(m => ({ med: m, ...getPrnUsage(m, logs, adherence.from, adherence.to) }));
+
+  const streak = getStreak(medications, logs);
+  const medStreaks = medications
+    .filter(m => m.frequency !== FrequencyType.AS_NEEDED)
+    .map(med => ({ med, streak: getMedicationStreak(med, logs) }));
+
+  // How close to their scheduled time doses are actually taken
+  const overallPunctuality = getOverallPunctuality(medications, logs);
+  const medPunctuality = getMedicationPunctuality(medications, logs);
+  const slotPunctuality = getSlotPunctuality(medications, logs);
+
+  // Doses and vitals follow the selected period; medications and appointments go in whole
+  const handleExportFhir = () => {
+    const inRange = (dateStr: string) => dateStr >= rangeStart && dateStr <= rangeEnd;
+    const bundle = buildFhirBundle({
+      profile,
+      medications,
+      logs: logs.filter(l => inRange(l.dateStr)),
+      vitals: vitals.filter(v => inRange(v.dateStr)),
+      appointments
+    });
+    downloadFhirBundle(bundle, profile.name);
+  };
+
+  const handleExportCsv = (kind: 'doses' | 'vitals') => {
+    const contents = kind === 'doses'
+      ? logsToCsv(medications, logs, rangeStart, rangeEnd)
+      : vitalsToCsv(vitals, rangeStart, rangeEnd);
+    downloadCsv(contents, `MediMind_${kind === 'doses' ? 'Doses' : 'Vitals'}_${profile.name.replace(/\s+/g, '_')}_${rangeStart}_to_${rangeEnd}.csv`);
+  };
 
   const handleExportPDF = () => {
     const title = `MediMind_Report_${format(new Date(), 'yyyy-MM-dd')}`;
@@ -114,6 +173,7 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
             th { background-color: #f8fafc; color: #475569; font-weight: 600; }
             .taken { color: #15803d; font-weight: bold; background-color: #dcfce7; padding: 2px 8px; border-radius: 99px; font-size: 0.8em; }
             .skipped { color: #b91c1c; font-weight: bold; background-color: #fee2e2; padding: 2px 8px; border-radius: 99px; font-size: 0.8em; }
+            .missed { color: #b45309; font-weight: bold; background-color: #fef3c7; padding: 2px 8px; border-radius: 99px; font-size: 0.8em; }
             .med-name { font-weight: 600; color: #334155; }
             .footer { margin-top: 40px; text-align: center; color: #94a3b8; font-size: 0.7em; border-top: 1px solid #e2e8f0; padding-top: 20px; }
             
@@ -138,22 +198,113 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
 
           <div class="stat-box">
             <h2>Adherence Summary</h2>
+            <p style="margin-top: 0; color: #64748b;">${rangeStart} to ${rangeEnd}</p>
             <div style="display: flex; gap: 20px; justify-content: space-around; text-align: center;">
               <div>
-                <div style="font-size: 0.7em; color: #64748b; text-transform: uppercase; font-weight: 700;">Score</div>
-                <div style="font-size: 2em; font-weight: 800; color: #2563eb;">${adherenceRate}%</div>
+                <div style="font-size: 0.7em; color: #64748b; text-transform: uppercase; font-weight: 700;">Doses Taken</div>
+                <div style="font-size: 2em; font-weight: 800; color: #2563eb;">${adherenceRate ?? '--'}%</div>
+              </div>
+              <div>
+                <div style="font-size: 0.7em; color: #64748b; text-transform: uppercase; font-weight: 700;">PDC</div>
+                <div style="font-size: 2em; font-weight: 800; color: #4f46e5;">${adherence.overall.pdc ?? '--'}%</div>
               </div>
               <div>
                 <div style="font-size: 0.7em; color: #64748b; text-transform: uppercase; font-weight: 700;">Taken</div>
-                <div style="font-size: 2em; font-weight: 800; color: #16a34a;">${totalTaken}</div>
+                <div style="font-size: 2em; font-weight: 800; color: #16a34a;">${adherence.overall.taken}</div>
               </div>
               <div>
                 <div style="font-size: 0.7em; color: #64748b; text-transform: uppercase; font-weight: 700;">Skipped</div>
-                <div style="font-size: 2em; font-weight: 800; color: #dc2626;">${totalLogs - totalTaken}</div>
+                <div style="font-size: 2em; font-weight: 800; color: #dc2626;">${adherence.overall.skipped}</div>
+              </div>
+              <div>
+                <div style="font-size: 0.7em; color: #64748b; text-transform: uppercase; font-weight: 700;">Missed</div>
+                <div style="font-size: 2em; font-weight: 800; color: #d97706;">${adherence.overall.missed}</div>
               </div>
             </div>
+            ${adherence.perMedication.length > 0 ? `
+            <table>
+              <thead>
+                <tr>
+                  <th>Medication</th>
+                  <th>Taken / Scheduled</th>
+                  <th>Adherence</th>
+                  <th>PDC</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${adherence.perMedication.map(({ med, stats }) => `
+                  <tr>
+                    <td class="med-name">${med.name}</td>
+                    <td>${stats.taken} / ${stats.scheduled}</td>
+                    <td>${stats.rate}%</td>
+                    <td>${stats.pdc}%</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+            ` : ''}
           </div>
           
+          ${prnUsage.length > 0 ? `
+          <div class="stat-box">
+            <h2>As-Needed Medication Limits</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Medication</th>
+                  <th>Limits</th>
+                  <th>Doses Taken</th>
+                  <th>Over Limit</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${prnUsage.map(({ med, taken, violations }) => `
+                  <tr>
+                    <td class="med-name">${med.name}</td>
+                    <td>${describePrnLimits(med)}</td>
+                    <td>${taken}</td>
+                    <td>${violations.length > 0
+                      ? `<span class="skipped">${violations.length}</span> <span style="color:#94a3b8; font-size:0.9em">${violations.slice(-3).map(v => format(new Date(v.timestamp), 'MMM d, h:mm a')).join(', ')}</span>`
+                      : '0'}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+          </div>
+          ` : ''}
+
+          ${overallPunctuality ? `
+          <div class="stat-box">
+            <h2>Dose Timing</h2>
+            <p style="margin-top: 0; color: #64748b;">${overallPunctuality.onTimeRate}% of scheduled doses taken within ${ON_TIME_WINDOW_MINUTES} min of the scheduled time.</p>
+            <table>
+              <thead>
+                <tr>
+                  <th>Medication / Slot</th>
+                  <th>On Time</th>
+                  <th>Median Delay</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${medPunctuality.map(({ med, stats }) => `
+                  <tr>
+                    <td class="med-name">${med.name}</td>
+                    <td>${stats.onTimeRate}%</td>
+                    <td>${formatDelay(stats.medianDelay)}</td>
+                  </tr>
+                `).join('')}
+                ${slotPunctuality.map(({ slot, stats, isChronicallyLate }) => `
+                  <tr>
+                    <td>${TIME_SLOT_LABELS[slot]} doses</td>
+                    <td>${stats.onTimeRate}%</td>
+                    <td>${isChronicallyLate ? `<span class="missed">${formatDelay(stats.medianDelay)}</span>` : formatDelay(stats.medianDelay)}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+          </div>
+          ` : ''}
+
           ${reportHtml}
 
           <div class="stat-box">
@@ -167,13 +318,13 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
                 </tr>
               </thead>
               <tbody>
-                ${logs.slice().reverse().slice(0, 50).map(log => {
+                ${logs.slice().sort((a, b) => b.timestamp - a.timestamp).slice(0, 50).map(log => {
                   const med = medications.find(m => m.id === log.medicationId);
                   return `
                     <tr>
                       <td>${log.dateStr} <span style="color:#94a3b8; font-size:0.9em">${log.scheduledTime}</span></td>
                       <td class="med-name">${med?.name || 'Unknown'}</td>
-                      <td><span class="${log.status === 'TAKEN' ? 'taken' : 'skipped'}">${log.status}</span></td>
+                      <td><span class="${log.status.toLowerCase()}">${log.status}</span></td>
                     </tr>
                   `;
                 }).join('')}
@@ -226,7 +377,7 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
 
   const handleGenerateReport = async () => {
     setGenerating(true);
-    const result = await generateHealthReport(medications, logs, vitals, moods);
+    const result = await generateHealthReport(medications, logs, vitals, moods, adherence);
     setReport(result);
     setGenerating(false);
   };
@@ -242,20 +393,117 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
 
   return (
     <div className="space-y-6 animate-fadeIn pb-20">
+      {/* Adherence Period */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-3 flex flex-wrap items-center gap-2">
+        {[7, 30, 90].map(days => (
+          <button
+            key={days}
+            onClick={() => selectRangePreset(days)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${
+              rangeDays === days && rangeEnd === format(new Date(), 'yyyy-MM-dd') ? 'bg-blue-500 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'
+            }`}
+          >
+            {days} days
+          </button>
+        ))}
+        <div className="flex items-center gap-1 ml-auto text-xs text-slate-400 font-bold">
+          <input
+            type="date"
+            value={rangeStart}
+            max={rangeEnd}
+            onChange={(e) => e.target.value && setRangeStart(e.target.value)}
+            className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-slate-600"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={rangeEnd}
+            min={rangeStart}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => e.target.value && setRangeEnd(e.target.value)}
+            className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-slate-600"
+          />
+        </div>
+      </div>
+
       {/* Summary Score Card */}
       <div className="bg-gradient-to-r from-blue-500 to-indigo-600 rounded-2xl p-6 text-white flex items-center justify-between shadow-lg shadow-blue-200">
         <div>
           <h3 className="text-blue-100 font-medium mb-1">Overall Adherence</h3>
-          <div className="text-4xl font-bold">{adherenceRate}%</div>
+          <div className="text-4xl font-bold">{adherenceRate === null ? '--' : `${adherenceRate}%`}</div>
           <p className="text-sm text-blue-100 mt-2 opacity-80">
-            {adherenceRate >= 90 ? 'Excellent work! Keeping it up.' : 'Try to stay more consistent.'}
+            {adherenceRate === null
+              ? 'No scheduled doses in this period yet.'
+              : adherenceRate >= 90 ? 'Excellent work! Keeping it up.' : 'Try to stay more consistent.'}
           </p>
+          {adherenceRate !== null && (
+            <p className="text-xs text-blue-100/80 mt-1">
+              {adherence.overall.taken} of {adherence.overall.scheduled} scheduled doses · PDC {adherence.overall.pdc}%
+            </p>
+          )}
         </div>
         <div className="bg-white/20 p-3 rounded-full">
            <CheckCircle2 size={32} />
         </div>
       </div>
 
+      {/* Per-medication Adherence */}
+      {adherence.perMedication.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
+          <h2 className="text-lg font-bold text-slate-800 mb-1">By Medication</h2>
+          <p className="text-xs text-slate-400 mb-4">PDC is the share of scheduled days on which every dose was taken.</p>
+          <div className="space-y-3">
+            {adherence.perMedication.map(({ med, stats }) => (
+              <div key={med.id}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-bold text-slate-700">{med.name}</span>
+                  <span className="text-xs text-slate-500">
+                    {stats.taken}/{stats.scheduled} doses · <span className="font-bold text-slate-700">{stats.rate}%</span> · PDC {stats.pdc}%
+                  </span>
+                </div>
+                <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className={`h-full rounded-full ${(stats.rate ?? 0) >= 80 ? 'bg-emerald-500' : 'bg-amber-400'}`} style={{ width: `${stats.rate ?? 0}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Streaks */}
+      {medStreaks.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Flame size={18} className="text-orange-500" /> Streaks</h2>
+              <p className="text-xs text-slate-400 mt-0.5">
+                Days with every scheduled dose taken. {SKIPPED_BREAKS_STREAK ? 'Skipped doses break a streak.' : "Skipped doses don't break a streak; missed ones do."}
+              </p>
+            </div>
+            <div className="flex gap-4 text-right">
+              <div>
+                <div className="text-2xl font-bold text-slate-800">{streak.current}</div>
+                <div className="text-[10px] font-bold text-slate-400 uppercase">Current</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-slate-400">{streak.longest}</div>
+                <div className="text-[10px] font-bold text-slate-400 uppercase">Longest</div>
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {medStreaks.map(({ med, streak }) => (
+              <div key={med.id} className="flex items-center justify-between text-sm">
+                <span className="font-bold text-slate-700">{med.name}</span>
+                <span className="text-xs text-slate-500">
+                  <span className="font-bold text-slate-700">{streak.current}</span> days · best {streak.longest}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
          {/* Adherence Chart */}
          <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
@@ -270,7 +518,8 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
                     contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
                   />
                   <Bar dataKey="taken" stackId="a" fill="#10b981" radius={[0, 0, 4, 4]} barSize={16} />
-                  <Bar dataKey="skipped" stackId="a" fill="#ef4444" radius={[4, 4, 0, 0]} barSize={16} />
+                  <Bar dataKey="skipped" stackId="a" fill="#ef4444" barSize={16} />
+                  <Bar dataKey="missed" stackId="a" fill="#cbd5e1" radius={[4, 4, 0, 0]} barSize={16} />
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -316,19 +565,74 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
          </div>
       </div>
 
+      {/* Dose Timing */}
+      {overallPunctuality && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Clock size={18} className="text-blue-500" /> Dose Timing</h2>
+              <p className="text-xs text-slate-400 mt-0.5">Taken within {ON_TIME_WINDOW_MINUTES} min of the scheduled time</p>
+            </div>
+            <div className="text-right">
+              <div className="text-2xl font-bold text-slate-800">{overallPunctuality.onTimeRate}%</div>
+              <div className="text-[10px] font-bold text-slate-400 uppercase">On Time</div>
+            </div>
+          </div>
+
+          <div className="flex gap-2 mb-4">
+            {slotPunctuality.map(({ slot, stats, isChronicallyLate }) => (
+              <div key={slot} className={`flex-1 rounded-lg p-2.5 border ${isChronicallyLate ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-slate-100'}`}>
+                <div className="text-[10px] text-slate-400 font-bold uppercase">{TIME_SLOT_LABELS[slot]}</div>
+                <div className={`text-xs font-bold ${isChronicallyLate ? 'text-amber-700' : 'text-slate-700'}`}>{formatDelay(stats.medianDelay)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {medPunctuality.map(({ med, stats }) => (
+              <div key={med.id} className="flex items-center justify-between text-sm">
+                <span className="font-bold text-slate-700">{med.name}</span>
+                <span className="text-xs text-slate-500">
+                  <span className="font-bold text-slate-700">{stats.onTimeRate}%</span> on time · median {formatDelay(stats.medianDelay)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* AI Doctor Report Section */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
         <div className="p-5 border-b border-slate-50 bg-slate-50/50 flex justify-between items-center flex-wrap gap-2">
           <h3 className="font-bold text-slate-800 flex items-center gap-2">
             <Sparkles size={18} className="text-indigo-500" /> AI Health Report
           </h3>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
             <button 
               onClick={handleExportPDF}
               className="flex items-center gap-1.5 text-xs font-bold bg-white border border-slate-200 hover:bg-slate-50 text-slate-600 px-3 py-1.5 rounded-lg transition-colors"
             >
               <Printer size={14} /> Print / PDF
             </button>
+            <button 
+              onClick={handleExportFhir}
+              title="FHIR R4 bundle for your doctor's system"
+              className="flex items-center gap-1.5 text-xs font-bold bg-white border border-slate-200 hover:bg-slate-50 text-slate-600 px-3 py-1.5 rounded-lg transition-colors"
+            >
+              <FileJson size={14} /> FHIR Export
+            </button>
+            <button 
+              onClick={() => handleExportCsv('doses')}
+              className="flex items-center gap-1.5 text-xs font-bold bg-white border border-slate-200 hover:bg-slate-50 text-slate-600 px-3 py-1.5 rounded-lg transition-colors"
+            >
+              <FileSpreadsheet size={14} /> Doses CSV
+            </button>
+            <button 
+              onClick={() => handleExportCsv('vitals')}
+              className="flex items-center gap-1.5 text-xs font-bold bg-white border border-slate-200 hover:bg-slate-50 text-slate-600 px-3 py-1.5 rounded-lg transition-colors"
+            >
+              <FileSpreadsheet size={14} /> Vitals CSV
+            </button>
             <button 
               onClick={handleGenerateReport} 
               disabled={generating}
@@ -377,6 +681,9 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
         </div>
       </div>
 
+      {/* Backdated / corrected logging for past days */}
+      <DayLogEditor medications={medications} logs={logs} onSaveLog={onSaveLog} onDeleteLog={onDeleteLog} />
+
       {/* Detailed Log Table */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
         <div className="p-4 border-b border-slate-50 font-bold text-slate-700 flex justify-between items-center">
@@ -400,7 +707,7 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
                   </td>
                 </tr>
               ) : (
-                logs.slice().reverse().slice(0, 30).map(log => {
+                logs.slice().sort((a, b) => b.timestamp - a.timestamp).slice(0, 30).map(log => {
                   const med = medications.find(m => m.id === log.medicationId);
                   return (
                     <tr key={log.id} className="border-b border-slate-50 hover:bg-slate-50/50 transition-colors">
@@ -417,7 +724,9 @@ const HistoryView: React.FC<HistoryViewProps> = ({ medications, logs, vitals = [
                         <span className={`px-2.5 py-1 rounded-full text-xs font-bold inline-flex items-center gap-1 ${
                           log.status === 'TAKEN' 
                             ? 'bg-green-100 text-green-700' 
-                            : 'bg-red-100 text-red-700'
+                            : log.status === 'MISSED'
+                              ? 'bg-amber-100 text-amber-700'
+                              : 'bg-red-100 text-red-700'
                         }`}>
                           {log.status === 'TAKEN' ? <CheckCircle2 size={12} /> : <Activity size={12} />}
                           {log.status}
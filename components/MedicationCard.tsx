@@ -1,8 +1,11 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Medication, FrequencyType, DrugInfo, LogEntry } from '../types';
-import { Pill, Clock, Calendar, Info, Check, X, AlertCircle, Database, PlusCircle, Pencil, Hourglass, Bell, AlarmClock, Settings, Save, RefreshCw, Tablets, Package, Syringe, Droplet, SprayCan, Activity } from 'lucide-react';
+import { Pill, Clock, Calendar, Info, Check, X, AlertCircle, Database, PlusCircle, Pencil, Hourglass, Bell, AlarmClock, Settings, Save, RefreshCw, Tablets, Package, Syringe, Droplet, SprayCan, Activity, Flag, CheckCircle2, ShieldAlert } from 'lucide-react';
 import { getDrugInfo } from '../services/geminiService';
+import { formatStockAmount, getUnitLabel, roundStock, getDailyUsage, getDaysLeft, isLowStock as isMedLowStock } from '../services/inventoryService';
+import { getPrnStatus, hasPrnLimits, describePrnLimits, formatCountdown } from '../services/prnService';
+import { getDoseTimesForDate, isCourseComplete, parseDateStr, getActivePhase, getDosageForDate, getDoseQuantity, getCyclePosition } from '../services/scheduleService';
 import { format, differenceInDays } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -16,9 +19,11 @@ interface MedicationCardProps {
   onSnooze: (medId: string, time: string, minutes: number) => void;
   todayLogs: LogEntry[];
   snoozeUntil?: number; // Timestamp if snoozed
+  courseDosesTaken?: number; // All-time TAKEN count, for fixed-length courses
+  prnLogs?: LogEntry[]; // Recent logs for this med, used to enforce as-needed limits
 }
 
-const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, onLog, onRefill, onEdit, onUpdate, onSnooze, todayLogs, snoozeUntil }) => {
+const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, onLog, onRefill, onEdit, onUpdate, onSnooze, todayLogs, snoozeUntil, courseDosesTaken = 0, prnLogs = [] }) => {
   const [info, setInfo] = useState<DrugInfo | null>(null);
   const [loadingInfo, setLoadingInfo] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
@@ -54,21 +59,21 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
     if (onUpdate) {
       onUpdate({ 
         ...medication, 
-        currentStock: Number(editStock), 
-        lowStockThreshold: Number(editThreshold) 
+        currentStock: roundStock(Number(editStock)), 
+        lowStockThreshold: roundStock(Number(editThreshold)) 
       });
     }
     setShowSettings(false);
   };
 
   const handleRefillClick = () => {
-    const message = `Refill ${medication.name}\n\nCurrent Stock: ${medication.currentStock}\n\nEnter the New Total Stock Count (what you have now):`;
+    const message = `Refill ${medication.name}\n\nCurrent Stock: ${formatStockAmount(medication.currentStock, medication.stockUnit)}\n\nEnter the New Total Stock in ${getUnitLabel(medication.stockUnit)} (what you have now):`;
     const defaultVal = medication.currentStock.toString();
     
     const amountStr = window.prompt(message, defaultVal);
     
     if (amountStr !== null) {
-      const amount = parseInt(amountStr, 10);
+      const amount = roundStock(parseFloat(amountStr));
       if (!isNaN(amount) && amount >= 0) {
         onRefill(medication.id, amount);
       }
@@ -84,12 +89,42 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
     return log?.status;
   };
 
+  // As-needed safety limits, re-rendered every second while a countdown is running
+  const [, setTick] = useState(0);
+  const now = Date.now();
+  const prnStatus = medication.frequency === FrequencyType.AS_NEEDED && hasPrnLimits(medication)
+    ? getPrnStatus(medication, prnLogs, now)
+    : null;
+  const prnBlocked = !!prnStatus?.nextAllowedAt;
+
+  useEffect(() => {
+    if (!prnBlocked) return;
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [prnBlocked]);
+
+  const handleTakePrn = () => {
+    const takenAt = Date.now();
+    const status = prnStatus ? getPrnStatus(medication, prnLogs, takenAt) : null;
+    if (status?.nextAllowedAt) {
+      const reason = status.blockedBy === 'daily-limit'
+        ? `You have already taken ${status.dosesInWindow} doses in the last 24 hours (maximum ${medication.prnMaxPerDay}).`
+        : `Your last dose was less than ${medication.prnMinHours} hours ago.`;
+      const proceed = window.confirm(
+        `⚠️ ${medication.name} safety limit\n\n${reason}\nNext dose allowed at ${format(new Date(status.nextAllowedAt), 'h:mm a')}.\n\nTaking more than prescribed can be dangerous. Log this dose anyway?`
+      );
+      if (!proceed) return;
+    }
+    onLog(medication.id, 'TAKEN', new Date(takenAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}));
+  };
+
   const handleSnoozeClick = (time: string, minutes: number) => {
     onSnooze(medication.id, time, minutes);
     setShowSnoozeOptions(null);
   };
 
-  const isLowStock = medication.currentStock <= medication.lowStockThreshold;
+  const isLowStock = isMedLowStock(medication);
+  const stockText = formatStockAmount(medication.currentStock, medication.stockUnit);
   
   // Calculate stock status color
   let stockStatusColor = 'bg-emerald-500';
@@ -107,15 +142,22 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
   const todayStr = format(new Date(), 'yyyy-MM-dd');
   const isFuture = medication.startDate && medication.startDate > todayStr;
 
-  // Calculate estimates
-  let dailyUsage = 0;
-  if (medication.frequency === FrequencyType.DAILY) {
-    dailyUsage = medication.times.length;
-  } else if (medication.frequency === FrequencyType.WEEKLY) {
-    dailyUsage = medication.times.length / 7;
+  // Fixed-length course progress
+  const isCompleted = isCourseComplete(medication, courseDosesTaken);
+  let courseLabel: string | null = null;
+  if (medication.totalDoses) {
+    courseLabel = `${Math.min(courseDosesTaken, medication.totalDoses)} of ${medication.totalDoses} doses`;
+  } else if (medication.endDate) {
+    courseLabel = `Course ends ${format(parseDateStr(medication.endDate), 'MMM do')}`;
   }
 
-  const daysLeft = dailyUsage > 0 ? Math.floor(medication.currentStock / dailyUsage) : null;
+  // Calculate estimates (in stock units, following the active phase of a taper)
+  const activePhase = getActivePhase(medication, new Date());
+  const cyclePosition = getCyclePosition(medication, new Date());
+  const doseQuantity = getDoseQuantity(medication, new Date());
+  const dailyUsage = getDailyUsage(medication);
+  const daysLeft = getDaysLeft(medication);
+  const dosesLeft = doseQuantity > 0 ? Math.floor(medication.currentStock / doseQuantity) : null;
   
   let daysToExpiry = null;
   if (medication.expiryDate) {
@@ -141,8 +183,8 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
     expiryIconClass = "text-orange-500";
   }
 
-  // Sort times for display
-  const sortedTimes = [...medication.times].sort();
+  // Today's dose slots from the schedule engine (already sorted)
+  const sortedTimes = getDoseTimesForDate(medication, new Date());
 
   return (
     <div className={`bg-white rounded-xl shadow-sm border border-slate-100 p-5 transition-all hover:shadow-md border-l-4 ${medication.color === 'blue' ? 'border-l-blue-500' : 'border-l-teal-500'} relative overflow-hidden`}>
@@ -173,7 +215,7 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
               <h3 className="font-bold text-lg text-slate-800">{medication.name}</h3>
               {/* Visual Indicator for Stock Level */}
               {isLowStock ? (
-                <div title={`Low Stock: ${medication.currentStock} units remaining`}>
+                <div title={`Low Stock: ${stockText} remaining`}>
                   <AlertCircle 
                     size={16} 
                     className="text-red-500 fill-red-50" 
@@ -182,11 +224,27 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
               ) : (
                 <div 
                   className={`w-2.5 h-2.5 rounded-full ${stockStatusColor} ring-2 ring-white shadow-sm`} 
-                  title={`${stockStatusLabel}: ${medication.currentStock} units remaining`}
+                  title={`${stockStatusLabel}: ${stockText} remaining`}
                 />
               )}
+              {medication.reviewNotes && (
+                <button
+                  type="button"
+                  onClick={() => onEdit(medication)}
+                  className="text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded-full bg-amber-100 text-amber-700"
+                  title={medication.reviewNotes.join('\n')}
+                >
+                  Review
+                </button>
+              )}
             </div>
-            <p className="text-sm text-slate-500">{medication.dosage} • {medication.frequency}</p>
+            <p className="text-sm text-slate-500">
+              {getDosageForDate(medication, new Date())} • {activePhase
+                ? `Step ${activePhase.index + 1} of ${medication.phases!.length}`
+                : cyclePosition
+                  ? `${cyclePosition.isOnDay ? 'Cycle day' : 'Break day'} ${cyclePosition.day} of ${cyclePosition.length}`
+                  : medication.frequency}
+            </p>
           </div>
         </div>
         <div className="flex items-center mr-4">
@@ -266,18 +324,20 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
               
               <div className="grid grid-cols-2 gap-4 mb-4">
                 <div>
-                  <label className="block text-xs font-bold text-slate-400 mb-1">Current Stock</label>
+                  <label className="block text-xs font-bold text-slate-400 mb-1">Current Stock ({getUnitLabel(medication.stockUnit)})</label>
                   <input 
                     type="number" 
+                    step="any"
                     value={editStock}
                     onChange={(e) => setEditStock(Number(e.target.value))}
                     className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg font-bold text-slate-700"
                   />
                 </div>
                 <div>
-                  <label className="block text-xs font-bold text-slate-400 mb-1">Alert Below</label>
+                  <label className="block text-xs font-bold text-slate-400 mb-1">Alert Below ({getUnitLabel(medication.stockUnit)})</label>
                   <input 
                     type="number" 
+                    step="any"
                     value={editThreshold}
                     onChange={(e) => setEditThreshold(Number(e.target.value))}
                     className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg font-bold text-slate-700"
@@ -311,8 +371,11 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
           <div className="flex items-center gap-2">
             <Database size={14} className={isLowStock ? "text-red-500" : "text-slate-400"} />
             <span className={`text-sm font-bold ${isLowStock ? "text-red-600" : "text-slate-700"}`}>
-              {medication.currentStock} left
+              {stockText} left
             </span>
+            {dosesLeft !== null && doseQuantity !== 1 && (
+              <span className="text-xs text-slate-400 font-medium">≈ {dosesLeft} doses</span>
+            )}
             {isLowStock && (
               <span className="text-[10px] bg-red-100 text-red-600 px-1.5 py-0.5 rounded font-bold uppercase animate-pulse">Low</span>
             )}
@@ -344,6 +407,12 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
                </span>
              </div>
            )}
+           {courseLabel && (
+             <div className={`flex items-center gap-1.5 col-span-2 ${isCompleted ? 'text-emerald-600 font-medium' : 'text-slate-500'}`}>
+               <Flag size={12} className={isCompleted ? 'text-emerald-500' : 'text-slate-400'} />
+               <span>{courseLabel}</span>
+             </div>
+           )}
            {medication.refillDate && (
              <div className="flex items-center gap-1.5 col-span-2 text-slate-500">
                <RefreshCw size={12} className="text-slate-400" />
@@ -364,23 +433,60 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
           <Calendar size={16} />
           Starts on {format(new Date(medication.startDate + 'T00:00'), 'MMM do, yyyy')}
         </div>
+      ) : isCompleted ? (
+        <div className="bg-emerald-50 text-emerald-700 p-3 rounded-lg text-sm mt-2 border border-emerald-100 flex items-center gap-3">
+          <CheckCircle2 size={20} className="text-emerald-500 flex-shrink-0" />
+          <div>
+            <p className="font-bold">Course completed</p>
+            <p className="text-xs text-emerald-600/80">Remove it, or edit to start a new course.</p>
+          </div>
+        </div>
       ) : (
         <>
           {medication.frequency === FrequencyType.AS_NEEDED ? (
-            <div className="mt-2">
+            <div className="mt-2 space-y-2">
+              {prnStatus && (
+                <div className={`p-2.5 rounded-lg text-xs border ${prnBlocked ? 'bg-red-50 border-red-200 text-red-700' : 'bg-slate-50 border-slate-100 text-slate-500'}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1 font-medium">
+                      <ShieldAlert size={12} /> {describePrnLimits(medication)}
+                    </span>
+                    {medication.prnMaxPerDay && (
+                      <span className="font-bold">{prnStatus.dosesInWindow}/{medication.prnMaxPerDay} in 24h</span>
+                    )}
+                  </div>
+                  {prnBlocked && (
+                    <div className="mt-2 pt-2 border-t border-red-100 flex items-center justify-between gap-2">
+                      <span className="font-bold">
+                        {prnStatus.blockedBy === 'daily-limit' ? 'Daily limit reached' : 'Too soon for another dose'}
+                      </span>
+                      <span className="font-mono font-bold tabular-nums flex items-center gap-1">
+                        <Hourglass size={12} /> {formatCountdown(prnStatus.nextAllowedAt! - now)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
                <button
                 type="button"
-                onClick={() => onLog(medication.id, 'TAKEN', new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}))}
-                className="w-full py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                onClick={handleTakePrn}
+                className={`w-full py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${prnBlocked ? 'bg-white text-red-600 border border-red-200 hover:bg-red-50' : 'bg-blue-600 hover:bg-blue-700 text-white'}`}
               >
-                <Check size={18} /> Take Now
+                {prnBlocked ? <AlertCircle size={18} /> : <Check size={18} />} {prnBlocked ? 'Take Anyway' : 'Take Now'}
               </button>
             </div>
+          ) : sortedTimes.length === 0 ? (
+            <div className="bg-slate-50 text-slate-400 p-3 rounded-lg text-sm font-medium text-center mt-2 border border-slate-100 flex items-center justify-center gap-2">
+              <Calendar size={16} />
+              {cyclePosition && !cyclePosition.isOnDay ? 'Break day – no doses today' : 'No doses scheduled today'}
+            </div>
           ) : (
             <div className="space-y-2 mt-2">
               {sortedTimes.map((time) => {
                  const status = getLogStatus(time);
-                 const isLogged = !!status;
+                 // A MISSED dose can still be caught up, so it keeps its Take / Skip actions
+                 const isMissed = status === 'MISSED';
+                 const isLogged = !!status && !isMissed;
                  const isSnoozed = snoozeUntil && !isLogged && snoozeUntil > Date.now();
                  const snoozeTimeStr = isSnoozed ? format(new Date(snoozeUntil), 'h:mm a') : '';
 
@@ -395,6 +501,9 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication, onDelete, o
                             <AlarmClock size={12} /> Snoozed until {snoozeTimeStr}
                           </span>
                         )}
+                        {isMissed && (
+                          <span className="text-[10px] bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded font-bold uppercase">Missed</span>
+                        )}
                       </div>
                       
                       <AnimatePresence mode="wait">
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Lock, Loader2, X } from 'lucide-react';
+import { Profile } from '../types';
+import { verifyProfilePin } from '../services/profileLockService';
+
+interface ProfilePinPromptProps {
+  profile: Profile;
+  onUnlocked: () => void;
+  // Without onCancel the prompt covers the whole app (the active profile itself is locked)
+  onCancel?: () => void;
+  otherProfiles?: Profile[];
+  onSwitchProfile?: (id: string) => void;
+}
+
+const ProfilePinPrompt: React.FC<ProfilePinPromptProps> = ({ profile, onUnlocked, onCancel, otherProfiles = [], onSwitchProfile }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin) return;
+    setIsChecking(true);
+    setError(null);
+    const ok = await verifyProfilePin(profile, pin);
+    setIsChecking(false);
+    if (ok) {
+      onUnlocked();
+    } else {
+      setPin('');
+      setError('Wrong PIN. Please try again.');
+    }
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="bg-white rounded-[2rem] shadow-xl border border-slate-100 p-8 w-full max-w-sm text-center relative">
+      {onCancel && (
+        <button type="button" onClick={onCancel} className="absolute top-4 right-4 p-2 hover:bg-slate-100 rounded-full text-slate-400">
+          <X size={18} />
+        </button>
+      )}
+      <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-slate-100 flex items-center justify-center text-3xl">
+        {profile.avatar}
+      </div>
+      <h2 className="text-xl font-bold text-slate-800 mb-1">{profile.name}</h2>
+      <p className="text-sm text-slate-400 mb-6 flex items-center justify-center gap-1.5"><Lock size={14} /> Enter PIN to open this profile</p>
+      <input
+        type="password"
+        inputMode="numeric"
+        autoFocus
+        value={pin}
+        onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+        maxLength={8}
+        placeholder="PIN"
+        className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-center text-lg tracking-[0.5em] outline-none focus:border-blue-500 mb-3"
+      />
+      {error && <p className="text-xs text-red-600 font-medium mb-3">{error}</p>}
+      <button
+        type="submit"
+        disabled={!pin || isChecking}
+        className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+      >
+        {isChecking ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} Open Profile
+      </button>
+
+      {!onCancel && otherProfiles.length > 0 && onSwitchProfile && (
+        <div className="mt-6 pt-4 border-t border-slate-100">
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Use another profile</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {otherProfiles.map(p => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => onSwitchProfile(p.id)}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-full text-sm text-slate-600"
+              >
+                <span>{p.avatar}</span> {p.name} {p.pin && <Lock size={12} className="text-slate-400" />}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </form>
+  );
+
+  return onCancel ? (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4 animate-fadeIn">{form}</div>
+  ) : (
+    <div className="fixed inset-0 z-[60] bg-[#f1f5f9] flex items-center justify-center p-6">{form}</div>
+  );
+};
+
+export default ProfilePinPrompt;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { Profile } from '../types';
+import { PIN_PATTERN, createProfilePin, verifyProfilePin } from '../services/profileLockService';
+import { isCryptoAvailable } from '../services/cryptoService';
+
+interface ProfilePinSettingsProps {
+  profile: Profile;
+  onUpdateProfile: (profile: Profile) => void;
+}
+
+// Set, change or remove the PIN of the active profile. Changing or removing it needs the current PIN.
+const ProfilePinSettings: React.FC<ProfilePinSettingsProps> = ({ profile, onUpdateProfile }) => {
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isCryptoAvailable()) return null;
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, 8);
+
+  const update = async (pin: string | null) => {
+    setError(null);
+    if (pin !== null && !PIN_PATTERN.test(pin)) return setError('Use 4 to 8 digits.');
+    setIsWorking(true);
+    try {
+      if (profile.pin && !(await verifyProfilePin(profile, currentPin))) {
+        setError('Current PIN is wrong.');
+      } else {
+        onUpdateProfile({ ...profile, pin: pin === null ? undefined : await createProfilePin(pin) });
+        setCurrentPin('');
+        setNewPin('');
+      }
+    } catch (e) {
+      console.error('Updating profile PIN failed', e);
+      setError('Could not update the PIN. Please try again.');
+    }
+    setIsWorking(false);
+  };
+
+  const inputClass = 'w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500';
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-1 flex items-center gap-2">
+        <KeyRound size={16} /> Profile PIN
+      </h3>
+      <p className="text-xs text-slate-400 mb-4">
+        {profile.pin
+          ? 'Switching to this profile asks for the PIN, and its reminders hide medication names.'
+          : 'Ask for a PIN when someone switches to this profile on a shared device.'}
+      </p>
+      <div className="space-y-2">
+        {profile.pin && (
+          <input type="password" inputMode="numeric" value={currentPin} onChange={(e) => setCurrentPin(digitsOnly(e.target.value))} placeholder="Current PIN" className={inputClass} />
+        )}
+        <input type="password" inputMode="numeric" value={newPin} onChange={(e) => setNewPin(digitsOnly(e.target.value))} placeholder={profile.pin ? 'New PIN' : '4-8 digit PIN'} className={inputClass} />
+        {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={() => update(newPin)}
+            disabled={!newPin || (!!profile.pin && !currentPin) || isWorking}
+            className="flex-1 py-2.5 bg-slate-800 text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isWorking && <Loader2 size={16} className="animate-spin" />} {profile.pin ? 'Change PIN' : 'Set PIN'}
+          </button>
+          {profile.pin && (
+            <button
+              onClick={() => update(null)}
+              disabled={!currentPin || isWorking}
+              className="px-4 py-2.5 bg-red-50 text-red-600 border border-red-100 rounded-lg font-bold text-sm disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePinSettings;
@@ -1,8 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Smartphone, Activity, Check, Settings, Moon, Bell, Users, Plus, Watch, User, Heart, ShieldAlert, CreditCard, ChevronRight, Music, Volume2, Vibrate, ArrowLeft, HelpCircle, RefreshCw, Link2, Bluetooth } from 'lucide-react';
-import { Profile, SoundType } from '../types';
-import { playNotificationSound } from '../services/audioService';
+import { X, Smartphone, Activity, Check, Settings, Moon, Bell, Users, Plus, Watch, User, Heart, ShieldAlert, CreditCard, ChevronRight, Music, Volume2, Vibrate, ArrowLeft, HelpCircle, RefreshCw, Link2, Bluetooth, DatabaseBackup, Lock, HeartHandshake } from 'lucide-react';
+import { Profile, SoundType, ReminderSound, CustomSound, QuietMode } from '../types';
+import { playNotificationSound, customSoundRef } from '../services/audioService';
+import { QUIET_MODES, DEFAULT_QUIET_HOURS } from '../services/quietHoursService';
+import { BackupData } from '../services/backupService';
+import BackupSettings from './BackupSettings';
+import AppLockSettings from './AppLockSettings';
+import ProfilePinSettings from './ProfilePinSettings';
+import VoiceReminderSettings from './VoiceReminderSettings';
+import CustomSoundSettings from './CustomSoundSettings';
+import { AppLockControls } from './AppLockGate';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -15,10 +23,19 @@ interface SettingsModalProps {
   onConnectWatch?: () => void;
   connectedDeviceName?: string | null;
   onTestNotification?: () => void;
+  getBackupData: () => Promise<BackupData>;
+  onRestoreBackup: (data: BackupData) => Promise<void>;
+  appLock: AppLockControls;
+  customSounds?: CustomSound[];
+  onAddCustomSound?: (sound: CustomSound) => void;
+  onDeleteCustomSound?: (id: string) => void;
 }
 
+const BUILT_IN_SOUNDS: SoundType[] = ['chime', 'alert', 'soft', 'harp', 'nature', 'arcade', 'glass', 'shimmer', 'echo'];
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
-  isOpen, onClose, profiles = [], activeProfileId, onAddProfile, onUpdateProfile, fireBolttConnected = false, onConnectWatch, connectedDeviceName, onTestNotification 
+  isOpen, onClose, profiles = [], activeProfileId, onAddProfile, onUpdateProfile, fireBolttConnected = false, onConnectWatch, connectedDeviceName, onTestNotification,
+  getBackupData, onRestoreBackup, appLock, customSounds = [], onAddCustomSound, onDeleteCustomSound
 }) => {
   const [activeTab, setActiveTab] = useState<'profile' | 'devices' | 'general'>('profile');
   const [googleFitConnected, setGoogleFitConnected] = useState(false);
@@ -28,6 +45,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   // Sub-menu states
   const [showSoundSettings, setShowSoundSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showAppLock, setShowAppLock] = useState(false);
 
   // Profile Management State
   const [showAddProfile, setShowAddProfile] = useState(false);
@@ -45,6 +64,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
 
   if (!isOpen) return null;
 
+  // The PIN is saved straight away, so it works on the stored profile rather than the edit form
+  const savedProfile = profiles.find(p => p.id === activeProfileId);
+
   const handleAddProfileSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newProfileName && onAddProfile) {
@@ -77,7 +99,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
 
-  const testSound = (sound: SoundType) => {
+  const testSound = (sound: ReminderSound) => {
     playNotificationSound(sound);
   }
   
@@ -115,13 +137,52 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                  <Volume2 size={18} className="text-teal-500" /> Sound Preview
                </h3>
                <div className="grid grid-cols-2 gap-3">
-                  {['chime', 'alert', 'soft', 'harp', 'nature', 'arcade', 'glass', 'shimmer', 'echo'].map((sound) => (
-                    <button key={sound} onClick={() => testSound(sound as SoundType)} className="p-3 border border-slate-200 rounded-lg text-sm text-slate-600 hover:bg-slate-50">
+                  {BUILT_IN_SOUNDS.map((sound) => (
+                    <button key={sound} onClick={() => testSound(sound)} className="p-3 border border-slate-200 rounded-lg text-sm text-slate-600 hover:bg-slate-50">
                       <span className="capitalize">{sound}</span>
                     </button>
                   ))}
                </div>
              </div>
+             {onAddCustomSound && onDeleteCustomSound && (
+               <CustomSoundSettings sounds={customSounds} onAdd={onAddCustomSound} onDelete={onDeleteCustomSound} />
+             )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (showBackup) {
+    return (
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fadeIn">
+        <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+          <div className="bg-white p-4 border-b border-slate-100 flex items-center gap-3">
+             <button onClick={() => setShowBackup(false)} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+               <ArrowLeft size={20} />
+             </button>
+             <h2 className="text-xl font-bold text-slate-800">Backup & Restore</h2>
+          </div>
+          <div className="p-6 overflow-y-auto">
+            <BackupSettings getBackupData={getBackupData} onRestoreBackup={onRestoreBackup} />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (showAppLock) {
+    return (
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fadeIn">
+        <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+          <div className="bg-white p-4 border-b border-slate-100 flex items-center gap-3">
+             <button onClick={() => setShowAppLock(false)} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+               <ArrowLeft size={20} />
+             </button>
+             <h2 className="text-xl font-bold text-slate-800">App Lock</h2>
+          </div>
+          <div className="p-6 overflow-y-auto">
+            <AppLockSettings appLock={appLock} />
           </div>
         </div>
       </div>
@@ -251,6 +312,114 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 />
               </div>
 
+              {/* Caregiver: alerted when a critical medication goes untaken */}
+              {profiles.length > 1 && (
+                <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+                  <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                    <HeartHandshake size={16} /> Caregiver
+                  </h3>
+                  <select
+                    value={currentProfileData.caregiverProfileId || ''}
+                    onChange={e => handleProfileChange('caregiverProfileId', e.target.value || undefined)}
+                    className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500"
+                  >
+                    <option value="">No caregiver</option>
+                    {profiles.filter(p => p.id !== currentProfileData.id).map(p => (
+                      <option key={p.id} value={p.id}>{p.avatar} {p.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-400 mt-2">Gets an alert when a medication marked critical isn't taken.</p>
+                </div>
+              )}
+
+              {/* Quiet Hours */}
+              <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                    <Moon size={16} /> Quiet Hours
+                  </h3>
+                  <input
+                    type="checkbox"
+                    checked={!!currentProfileData.quietHours}
+                    onChange={e => handleProfileChange('quietHours', e.target.checked ? DEFAULT_QUIET_HOURS : undefined)}
+                    className="w-4 h-4 accent-blue-600"
+                  />
+                </div>
+                <p className="text-xs text-slate-400">Medications marked critical still ring.</p>
+                {currentProfileData.quietHours && (
+                  <div className="grid grid-cols-2 gap-3 mt-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">From</label>
+                      <input
+                        type="time"
+                        value={currentProfileData.quietHours.start}
+                        onChange={e => handleProfileChange('quietHours', { ...currentProfileData.quietHours!, start: e.target.value })}
+                        className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">Until</label>
+                      <input
+                        type="time"
+                        value={currentProfileData.quietHours.end}
+                        onChange={e => handleProfileChange('quietHours', { ...currentProfileData.quietHours!, end: e.target.value })}
+                        className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500"
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <label className="block text-xs font-bold text-slate-500 mb-1">Reminders</label>
+                      <select
+                        value={currentProfileData.quietHours.mode}
+                        onChange={e => handleProfileChange('quietHours', { ...currentProfileData.quietHours!, mode: e.target.value as QuietMode })}
+                        className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500"
+                      >
+                        {QUIET_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Reminder Sound: used by medications left on the default sound */}
+              <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+                <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                  <Music size={16} /> Reminder Sound
+                </h3>
+                <div className="flex gap-2">
+                  <select
+                    value={currentProfileData.preferredSound || 'default'}
+                    onChange={e => handleProfileChange('preferredSound', e.target.value as ReminderSound)}
+                    className="flex-1 p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500"
+                  >
+                    <option value="default">No sound</option>
+                    {BUILT_IN_SOUNDS.map(sound => <option key={sound} value={sound}>{sound[0].toUpperCase() + sound.slice(1)}</option>)}
+                    {customSounds.length > 0 && (
+                      <optgroup label="My Recordings">
+                        {customSounds.map(sound => <option key={sound.id} value={customSoundRef(sound.id)}>{sound.name}</option>)}
+                      </optgroup>
+                    )}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => testSound(currentProfileData.preferredSound || 'default')}
+                    className="p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-blue-500 hover:bg-blue-50"
+                  >
+                    <Volume2 size={18} />
+                  </button>
+                </div>
+                <p className="text-xs text-slate-400 mt-2">Medications with their own sound keep it.</p>
+              </div>
+
+              <VoiceReminderSettings
+                profileName={currentProfileData.name}
+                value={currentProfileData.voiceReminders}
+                onChange={value => handleProfileChange('voiceReminders', value)}
+              />
+
+              {onUpdateProfile && savedProfile && (
+                <ProfilePinSettings profile={savedProfile} onUpdateProfile={onUpdateProfile} />
+              )}
+
               <button 
                   onClick={saveProfile}
                   className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold shadow-lg shadow-slate-200 hover:bg-slate-700 transition-all flex items-center justify-center gap-2"
@@ -346,6 +515,32 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     </div>
                     <ChevronRight size={16} className="text-slate-300" />
                  </button>
+                 <button 
+                   onClick={() => setShowAppLock(true)}
+                   className="w-full p-4 flex items-center justify-between hover:bg-slate-50 transition-colors border-t border-slate-100"
+                 >
+                    <div className="flex items-center gap-3">
+                      <Lock size={20} className="text-slate-400" />
+                      <div className="text-left">
+                        <p className="font-bold text-slate-700 text-sm">App Lock</p>
+                        <p className="text-xs text-slate-400">{appLock.config ? 'On · data encrypted' : 'Passphrase & encryption'}</p>
+                      </div>
+                    </div>
+                    <ChevronRight size={16} className="text-slate-300" />
+                 </button>
+                 <button 
+                   onClick={() => setShowBackup(true)}
+                   className="w-full p-4 flex items-center justify-between hover:bg-slate-50 transition-colors border-t border-slate-100"
+                 >
+                    <div className="flex items-center gap-3">
+                      <DatabaseBackup size={20} className="text-slate-400" />
+                      <div className="text-left">
+                        <p className="font-bold text-slate-700 text-sm">Backup & Restore</p>
+                        <p className="text-xs text-slate-400">Move your data to a new device</p>
+                      </div>
+                    </div>
+                    <ChevronRight size={16} className="text-slate-300" />
+                 </button>
               </div>
             </div>
           )}
@@ -0,0 +1,178 @@
+import React, { useState, useRef } from 'react';
+import { X, Upload, FileSpreadsheet, AlertTriangle, Check } from 'lucide-react';
+import { VitalEntry } from '../types';
+import {
+  CsvTable, VitalCsvMapping, VitalColumnRole, DateOrder, GlucoseUnit, WeightUnit, VITAL_COLUMN_ROLES,
+  parseCsv, guessVitalMapping, detectVitalUnits, buildVitalsFromCsv
+} from '../services/csvService';
+
+interface VitalsCsvImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingVitals: VitalEntry[];
+  onImport: (vitals: VitalEntry[]) => void;
+}
+
+const PREVIEW_ROWS = 3;
+
+// Two steps: pick a file, then confirm which column holds what (pre-filled from the headers)
+const VitalsCsvImport: React.FC<VitalsCsvImportProps> = ({ isOpen, onClose, existingVitals, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<VitalCsvMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setFileName('');
+    setTable(null);
+    setMapping(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+    try {
+      const parsed = parseCsv(await file.text());
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessVitalMapping(parsed));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const setRole = (column: number, role: VitalColumnRole) => {
+    if (!table || !mapping) return;
+    // Each role except "ignore" belongs to one column
+    const roles = mapping.roles.map((r, i) => i === column ? role : (role !== 'ignore' && r === role ? 'ignore' : r));
+    setMapping({ ...mapping, roles, ...detectVitalUnits(table, roles) });
+  };
+
+  const result = table && mapping ? buildVitalsFromCsv(table, mapping, existingVitals) : null;
+  const hasDate = !!mapping && mapping.roles.some(r => r === 'date' || r === 'datetime');
+
+  const handleImport = () => {
+    if (!result || result.vitals.length === 0) return;
+    onImport(result.vitals);
+    alert(`Imported ${result.vitals.length} reading${result.vitals.length === 1 ? '' : 's'}.`);
+    handleClose();
+  };
+
+  const selectClass = 'w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fadeIn">
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="bg-white p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <FileSpreadsheet size={20} className="text-teal-500" /> Import Vitals CSV
+          </h2>
+          <button onClick={handleClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div>
+            <p className="text-xs text-slate-400 mb-3">Export readings from your glucometer or blood pressure monitor software as CSV, then choose the file here.</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv,.txt"
+              onChange={handleFileChange}
+              className="w-full text-sm text-slate-500 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-slate-100 file:text-slate-700 file:font-bold"
+            />
+            {fileName && table && <p className="text-xs text-slate-500 mt-2">{fileName} · {table.rows.length} rows</p>}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-lg text-xs font-medium flex items-start gap-2">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+            </div>
+          )}
+
+          {table && mapping && (
+            <>
+              <div>
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Columns</h3>
+                <div className="space-y-2">
+                  {table.headers.map((header, i) => (
+                    <div key={i} className="grid grid-cols-2 gap-3 items-center bg-slate-50 rounded-lg p-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-bold text-slate-700 truncate">{header || `Column ${i + 1}`}</p>
+                        <p className="text-[10px] text-slate-400 truncate">{table.rows.slice(0, PREVIEW_ROWS).map(r => r[i]).join(' · ')}</p>
+                      </div>
+                      <select value={mapping.roles[i]} onChange={(e) => setRole(i, e.target.value as VitalColumnRole)} className={selectClass}>
+                        {VITAL_COLUMN_ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">Date Format</label>
+                  <select value={mapping.dateOrder} onChange={(e) => setMapping({ ...mapping, dateOrder: e.target.value as DateOrder })} className={selectClass}>
+                    <option value="YMD">Year-Month-Day</option>
+                    <option value="MDY">Month/Day/Year</option>
+                    <option value="DMY">Day/Month/Year</option>
+                  </select>
+                </div>
+                {mapping.roles.includes('glucose') && (
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">Glucose Unit</label>
+                    <select value={mapping.glucoseUnit} onChange={(e) => setMapping({ ...mapping, glucoseUnit: e.target.value as GlucoseUnit })} className={selectClass}>
+                      <option value="mg/dL">mg/dL</option>
+                      <option value="mmol/L">mmol/L (converted)</option>
+                    </select>
+                  </div>
+                )}
+                {mapping.roles.includes('weight') && (
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">Weight Unit</label>
+                    <select value={mapping.weightUnit} onChange={(e) => setMapping({ ...mapping, weightUnit: e.target.value as WeightUnit })} className={selectClass}>
+                      <option value="kg">kg</option>
+                      <option value="lb">lb (converted)</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              {!hasDate ? (
+                <p className="text-xs text-amber-700 font-medium">Choose the column that holds the date of each reading.</p>
+              ) : result && (
+                <p className="text-xs text-slate-500">
+                  <span className="font-bold text-slate-700">{result.vitals.length}</span> readings to import
+                  {result.duplicates > 0 && ` · ${result.duplicates} already recorded`}
+                  {result.invalidRows > 0 && ` · ${result.invalidRows} rows without a date or reading`}
+                </p>
+              )}
+
+              <button
+                onClick={handleImport}
+                disabled={!hasDate || !result || result.vitals.length === 0}
+                className="w-full py-3 bg-teal-600 text-white rounded-lg font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {result && result.vitals.length > 0 ? <Check size={18} /> : <Upload size={18} />} Import Readings
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VitalsCsvImport;
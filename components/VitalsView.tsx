@@ -3,22 +3,25 @@ import React, { useState, useMemo } from 'react';
 import { VitalEntry, VitalType } from '../types';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
 import { format } from 'date-fns';
-import { Activity, Heart, Scale, Droplet, Plus, Watch, RefreshCw } from 'lucide-react';
+import { Activity, Heart, Scale, Droplet, Plus, Watch, RefreshCw, FileSpreadsheet } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import VitalsCsvImport from './VitalsCsvImport';
 
 interface VitalsViewProps {
   vitals: VitalEntry[];
   onAddVital: (vital: VitalEntry) => void;
+  onImportVitals?: (vitals: VitalEntry[]) => void;
   watchConnected?: boolean;
   onSyncWatch?: () => Promise<number | null>;
 }
 
-const VitalsView: React.FC<VitalsViewProps> = ({ vitals, onAddVital, watchConnected = false, onSyncWatch }) => {
+const VitalsView: React.FC<VitalsViewProps> = ({ vitals, onAddVital, onImportVitals, watchConnected = false, onSyncWatch }) => {
   const [activeType, setActiveType] = useState<VitalType>('BLOOD_PRESSURE');
   const [value1, setValue1] = useState(''); // Systolic or single value
   const [value2, setValue2] = useState(''); // Diastolic (for BP)
   const [isAdding, setIsAdding] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const getUnit = (type: VitalType) => {
     switch(type) {
@@ -161,6 +164,15 @@ const VitalsView: React.FC<VitalsViewProps> = ({ vitals, onAddVital, watchConnec
                  {isSyncing ? 'Syncing...' : 'Sync Watch'}
               </button>
             )}
+            {onImportVitals && (
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-teal-50 text-teal-600 rounded-lg text-xs font-bold hover:bg-teal-100 transition-colors"
+                title="Import readings from a CSV file"
+              >
+                <FileSpreadsheet size={14} /> Import
+              </button>
+            )}
             <span className="text-xs font-medium text-slate-500 bg-slate-100 px-2 py-1.5 rounded flex items-center">
               Unit: {getUnit(activeType)}
             </span>
@@ -266,6 +278,14 @@ const VitalsView: React.FC<VitalsViewProps> = ({ vitals, onAddVital, watchConnec
            }
         </div>
       </div>
+      {onImportVitals && (
+        <VitalsCsvImport
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          existingVitals={vitals}
+          onImport={onImportVitals}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { Speech, Play } from 'lucide-react';
+import { VoiceReminderSettings as VoiceSettings } from '../types';
+import { DEFAULT_VOICE_SETTINGS, isSpeechAvailable, getSpeechVoices, onSpeechVoicesChanged, speakReminder } from '../services/audioService';
+
+interface VoiceReminderSettingsProps {
+  profileName: string;
+  value?: VoiceSettings;
+  onChange: (value: VoiceSettings | undefined) => void;
+}
+
+const RATES = [
+  { value: 0.7, label: 'Slow' },
+  { value: 0.9, label: 'Relaxed' },
+  { value: 1, label: 'Normal' },
+  { value: 1.2, label: 'Fast' }
+];
+
+const VoiceReminderSettings: React.FC<VoiceReminderSettingsProps> = ({ profileName, value, onChange }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(getSpeechVoices);
+
+  useEffect(() => onSpeechVoicesChanged(() => setVoices(getSpeechVoices())), []);
+
+  const languages = Array.from(new Set(voices.map(v => v.lang))).sort();
+  const languageVoices = value?.lang ? voices.filter(v => v.lang === value.lang) : voices;
+
+  const selectClass = 'w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-blue-500';
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Speech size={16} /> Voice Reminders
+        </h3>
+        <input
+          type="checkbox"
+          checked={!!value?.enabled}
+          disabled={!isSpeechAvailable()}
+          onChange={e => onChange(e.target.checked ? { ...DEFAULT_VOICE_SETTINGS, ...value, enabled: true } : value && { ...value, enabled: false })}
+          className="w-4 h-4 accent-blue-600"
+        />
+      </div>
+      <p className="text-xs text-slate-400">
+        {isSpeechAvailable() ? 'Reads each reminder aloud after its sound.' : 'This browser cannot read reminders aloud.'}
+      </p>
+
+      {value?.enabled && (
+        <div className="space-y-3 mt-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Language</label>
+            <select
+              value={value.lang || ''}
+              onChange={e => onChange({ ...value, lang: e.target.value || undefined, voiceURI: undefined })}
+              className={selectClass}
+            >
+              <option value="">Device language</option>
+              {languages.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Voice</label>
+            <select
+              value={value.voiceURI || ''}
+              onChange={e => onChange({ ...value, voiceURI: e.target.value || undefined })}
+              className={selectClass}
+            >
+              <option value="">Default voice</option>
+              {languageVoices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Speed</label>
+            <select value={value.rate} onChange={e => onChange({ ...value, rate: Number(e.target.value) })} className={selectClass}>
+              {RATES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={() => speakReminder(`${profileName}, time for your medication.`, value)}
+            className="w-full py-2.5 bg-slate-100 text-slate-700 rounded-lg font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-200"
+          >
+            <Play size={16} /> Preview
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceReminderSettings;
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AppLockGate from './components/AppLockGate';
 
 // Robust Service Worker Registration
 if ('serviceWorker' in navigator) {
@@ -25,6 +26,8 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <AppLockGate>
+      {lock => <App appLock={lock} />}
+    </AppLockGate>
   </React.StrictMode>
 );
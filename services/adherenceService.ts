@@ -0,0 +1,135 @@
+import { Medication, LogEntry } from '../types';
+import { DoseOccurrence, expandSchedule, parseDateStr, toDateStr } from './scheduleService';
+import { startOfDay } from 'date-fns';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const DEFAULT_GRACE_MINUTES = 60;
+
+export const getGraceMinutes = (med: Medication) => med.graceMinutes ?? DEFAULT_GRACE_MINUTES;
+
+export const findLogForDose = (dose: DoseOccurrence, logs: LogEntry[]) =>
+  logs.find(l =>
+    l.medicationId === dose.medicationId &&
+    l.dateStr === dose.dateStr &&
+    l.scheduledTime === dose.time
+  );
+
+// Medications saved before createdAt was recorded start being tracked now. Left without one,
+// the missed-dose sweep would backfill misses for days the user had no reason to log.
+export const withTrackingStart = (meds: Medication[], now: number = Date.now()): Medication[] =>
+  meds.map(med => med.createdAt ? med : { ...med, createdAt: now });
+
+// Scheduled doses in [from, now) with no log at all whose grace window has run out
+export const findMissedDoses = (meds: Medication[], logs: LogEntry[], from: Date, now: Date = new Date()): DoseOccurrence[] =>
+  meds.flatMap(med => {
+    const graceCutoff = new Date(now.getTime() - getGraceMinutes(med) * MINUTE_MS);
+    const start = med.createdAt && med.createdAt > from.getTime() ? new Date(med.createdAt) : from;
+    return expandSchedule(med, start, graceCutoff).filter(dose => !findLogForDose(dose, logs));
+  });
+
+export interface CatchUpAdvice {
+  action: 'take' | 'skip';
+  message: string;
+}
+
+// What to do about a missed dose under the medication's catch-up rule, or null if it has none
+export const getCatchUpAdvice = (med: Medication, scheduledAt: number, now: number = Date.now()): CatchUpAdvice | null => {
+  if (med.catchUpHours === undefined) return null;
+  if (med.catchUpHours === 0) {
+    return { action: 'skip', message: 'Skip this dose and take the next one as usual.' };
+  }
+  const hoursLate = (now - scheduledAt) / HOUR_MS;
+  return hoursLate <= med.catchUpHours
+    ? { action: 'take', message: `Still within ${med.catchUpHours}h of the scheduled time – take it now.` }
+    : { action: 'skip', message: `More than ${med.catchUpHours}h late – skip it and take the next dose as usual.` };
+};
+
+// First day a medication's doses can fairly be held against the user: when it was added
+// to the app, or its earliest log for medications added before that was recorded
+export const getTrackingStart = (med: Medication, logs: LogEntry[]): Date | null => {
+  let start: Date | null = med.createdAt ? startOfDay(new Date(med.createdAt)) : null;
+  if (!start) {
+    const firstLog = logs
+      .filter(l => l.medicationId === med.id)
+      .reduce<string | null>((min, l) => (!min || l.dateStr < min ? l.dateStr : min), null);
+    if (!firstLog) return null;
+    start = parseDateStr(firstLog);
+  }
+  if (med.startDate && parseDateStr(med.startDate) > start) start = parseDateStr(med.startDate);
+  return start;
+};
+
+export interface AdherenceStats {
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  missed: number; // MISSED logs plus doses past their grace window with no log
+  rate: number | null; // taken / scheduled, 0-100; null when nothing was due
+  pdc: number | null; // proportion of scheduled days with every dose taken, 0-100
+}
+
+export interface AdherenceSummary {
+  from: Date;
+  to: Date;
+  overall: AdherenceStats;
+  perMedication: { med: Medication; stats: AdherenceStats }[];
+}
+
+const toPercent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 100) : null;
+
+// Doses each medication asked for in [from, to) since it was tracked, with the log (if any) recorded against each.
+// Doses still inside their grace window only count once they've been logged.
+const collectDueDoses = (med: Medication, logs: LogEntry[], from: Date, to: Date, now: Date) => {
+  const start = getTrackingStart(med, logs);
+  if (!start) return [];
+  const graceCutoff = now.getTime() - getGraceMinutes(med) * MINUTE_MS;
+  return expandSchedule(med, start > from ? start : from, to < now ? to : now)
+    .map(dose => ({ dose, log: findLogForDose(dose, logs) }))
+    .filter(({ dose, log }) => log || dose.timestamp <= graceCutoff);
+};
+
+const summarizeDoses = (doses: { dose: DoseOccurrence; log?: LogEntry }[]): AdherenceStats => {
+  const taken = doses.filter(d => d.log?.status === 'TAKEN').length;
+  const skipped = doses.filter(d => d.log?.status === 'SKIPPED').length;
+
+  const days = new Map<string, boolean>();
+  doses.forEach(({ dose, log }) => {
+    const key = `${dose.medicationId}|${dose.dateStr}`;
+    days.set(key, (days.get(key) ?? true) && log?.status === 'TAKEN');
+  });
+  const coveredDays = Array.from(days.values()).filter(Boolean).length;
+
+  return {
+    scheduled: doses.length,
+    taken,
+    skipped,
+    missed: doses.length - taken - skipped,
+    rate: toPercent(taken, doses.length),
+    pdc: toPercent(coveredDays, days.size)
+  };
+};
+
+// Taken-over-scheduled and PDC adherence for [from, to), per medication and overall.
+// As-needed medications have no schedule and are left out.
+export const getAdherenceSummary = (meds: Medication[], logs: LogEntry[], from: Date, to: Date, now: Date = new Date()): AdherenceSummary => {
+  const perMedDoses = meds.map(med => ({ med, doses: collectDueDoses(med, logs, from, to, now) }));
+  return {
+    from,
+    to,
+    overall: summarizeDoses(perMedDoses.flatMap(m => m.doses)),
+    perMedication: perMedDoses
+      .filter(m => m.doses.length > 0)
+      .map(({ med, doses }) => ({ med, stats: summarizeDoses(doses) }))
+  };
+};
+
+export const describeAdherence = ({ from, to, overall, perMedication }: AdherenceSummary): string => {
+  if (overall.rate === null) return 'No scheduled doses in this period';
+  const range = `${toDateStr(from)} to ${toDateStr(new Date(to.getTime() - 1))}`;
+  const perMed = perMedication
+    .map(({ med, stats }) => `${med.name}: ${stats.rate}% of doses, PDC ${stats.pdc}%`)
+    .join('; ');
+  return `${overall.rate}% of scheduled doses taken (${overall.taken} of ${overall.scheduled}; ${overall.skipped} skipped, ${overall.missed} missed), PDC ${overall.pdc}%, ${range}. ${perMed}.`;
+};
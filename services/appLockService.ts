@@ -0,0 +1,76 @@
+import { getMeta, setMeta, setEncryptionKey, lockStorage, reencryptAllStores } from './storageService';
+import { deriveKey, encryptWithKey, decryptWithKey, randomBytes, toBase64, fromBase64 } from './cryptoService';
+
+// Optional app lock. The passphrase derives the key that encrypts every store at rest;
+// only a salt and an encrypted check value are kept, never the passphrase or key.
+
+const LOCK_META_KEY = 'appLock';
+// Set while the lock screen is up, so sw.js knows the open page isn't running reminders.
+// Keep in step with sw.js.
+const PAGE_LOCKED_META_KEY = 'pageLocked';
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'medimind-unlocked';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+
+export interface AppLockConfig {
+  salt: string;
+  iterations: number;
+  verifier: { iv: string; data: string };
+  autoLockMinutes: number;
+}
+
+export const getAppLockConfig = () => getMeta<AppLockConfig>(LOCK_META_KEY);
+
+// Returns the key if the passphrase is right, or null
+const checkPassphrase = async (config: AppLockConfig, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    return (await decryptWithKey(key, config.verifier.iv, config.verifier.data)) === VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+export const enableAppLock = async (passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<AppLockConfig> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const config: AppLockConfig = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptWithKey(key, VERIFIER_TEXT),
+    autoLockMinutes
+  };
+  await reencryptAllStores(key, LOCK_META_KEY, config);
+  return config;
+};
+
+// Unlock the stores for this session. Resolves false on a wrong passphrase.
+export const unlockApp = async (config: AppLockConfig, passphrase: string): Promise<boolean> => {
+  const key = await checkPassphrase(config, passphrase);
+  if (!key) return false;
+  setEncryptionKey(key);
+  await setMeta(PAGE_LOCKED_META_KEY, false);
+  return true;
+};
+
+// Turning the lock off needs the passphrase again, then writes everything back in plaintext
+export const disableAppLock = async (config: AppLockConfig, passphrase: string): Promise<boolean> => {
+  if (!(await checkPassphrase(config, passphrase))) return false;
+  await reencryptAllStores(null, LOCK_META_KEY, undefined);
+  return true;
+};
+
+// Lock the running app: the key is dropped, so unlocking has to derive it from the passphrase again.
+// Rejects if a change made just before locking couldn't be saved.
+export const lockApp = async (): Promise<void> => {
+  await setMeta(PAGE_LOCKED_META_KEY, true);
+  await lockStorage();
+};
+
+export const setAutoLockMinutes = async (config: AppLockConfig, autoLockMinutes: number): Promise<AppLockConfig> => {
+  const updated = { ...config, autoLockMinutes };
+  await setMeta(LOCK_META_KEY, updated);
+  return updated;
+};
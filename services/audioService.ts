@@ -1,5 +1,5 @@
 
-import { SoundType } from '../types';
+import { ReminderSound, CustomSound, VoiceReminderSettings } from '../types';
 
 let audioCtx: AudioContext | null = null;
 
@@ -17,20 +17,33 @@ export const initAudio = () => {
   }
 };
 
-export const playNotificationSound = (type: SoundType = 'default') => {
-  if (type === 'default') return; 
-
-  // Ensure context exists
+const getAudioContext = () => {
   if (!audioCtx) {
     const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
     if (AudioContext) {
       audioCtx = new AudioContext();
     }
   }
+  return audioCtx;
+};
 
-  if (!audioCtx) return;
+export const playNotificationSound = (type: ReminderSound = 'default') => {
+  if (type === 'default') return; 
+
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  const customSoundId = getCustomSoundId(type);
+  if (customSoundId) {
+    const sound = customSounds.find(s => s.id === customSoundId);
+    if (sound) {
+      playCustomSound(sound);
+      return;
+    }
+    // The clip has been deleted; ring with a built-in sound rather than not at all
+    type = 'chime';
+  }
 
-  const ctx = audioCtx;
   const osc = ctx.createOscillator();
   const gain = ctx.createGain();
 
@@ -183,3 +196,129 @@ export const playNotificationSound = (type: SoundType = 'default') => {
     osc2.stop(now + 0.7);
   }
 };
+
+// First audio format this browser's MediaRecorder can produce, or '' for its default
+export const getRecordingMimeType = () => {
+  if (typeof MediaRecorder === 'undefined') return '';
+  const types = [
+    'audio/webm;codecs=opus',
+    'audio/webm',
+    'audio/mp4',
+    'audio/ogg',
+    'audio/aac'
+  ];
+  return types.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+// --- Custom reminder clips ---
+// Recorded or uploaded clips are decoded once and played through the same AudioContext,
+// scaled to a common peak so a quiet phone recording rings as loud as a mastered file.
+
+const CUSTOM_SOUND_PREFIX = 'custom:';
+const CLIP_TARGET_PEAK = 0.8;
+const CLIP_MAX_GAIN = 10; // don't turn a silent recording into pure hiss
+
+export const MAX_CLIP_SECONDS = 30;
+
+export const customSoundRef = (id: string): ReminderSound => `${CUSTOM_SOUND_PREFIX}${id}`;
+
+export const getCustomSoundId = (sound?: ReminderSound) =>
+  sound?.startsWith(CUSTOM_SOUND_PREFIX) ? sound.slice(CUSTOM_SOUND_PREFIX.length) : undefined;
+
+let customSounds: CustomSound[] = [];
+const decodedClips = new Map<string, Promise<{ buffer: AudioBuffer; gain: number }>>();
+
+// The app hands over its clips whenever they change, so reminders can play them by reference
+export const registerCustomSounds = (sounds: CustomSound[]) => {
+  customSounds = sounds;
+  decodedClips.forEach((_, id) => {
+    if (!sounds.some(s => s.id === id)) decodedClips.delete(id);
+  });
+};
+
+const dataUrlToArrayBuffer = (dataUrl: string) => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+const getPeak = (buffer: AudioBuffer) => {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      const level = Math.abs(samples[i]);
+      if (level > peak) peak = level;
+    }
+  }
+  return peak;
+};
+
+const decodeClip = (ctx: AudioContext, data: string) =>
+  ctx.decodeAudioData(dataUrlToArrayBuffer(data)).then(buffer => {
+    const peak = getPeak(buffer);
+    return { buffer, gain: peak > 0 ? Math.min(CLIP_MAX_GAIN, CLIP_TARGET_PEAK / peak) : 1 };
+  });
+
+// Length of a clip in seconds; rejects when the browser can't decode it
+export const getClipDuration = async (data: string): Promise<number> => {
+  const ctx = getAudioContext();
+  if (!ctx) throw new Error('Audio is not available in this browser');
+  const { buffer } = await decodeClip(ctx, data);
+  return buffer.duration;
+};
+
+export const playCustomSound = async (sound: CustomSound) => {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  let clip = decodedClips.get(sound.id);
+  if (!clip) {
+    clip = decodeClip(ctx, sound.data);
+    decodedClips.set(sound.id, clip);
+  }
+
+  try {
+    const { buffer, gain } = await clip;
+    const source = ctx.createBufferSource();
+    const gainNode = ctx.createGain();
+    source.buffer = buffer;
+    gainNode.gain.value = gain;
+    source.connect(gainNode);
+    gainNode.connect(ctx.destination);
+    source.start();
+  } catch (e) {
+    decodedClips.delete(sound.id);
+    console.warn('Could not play reminder clip', e);
+  }
+};
+
+// --- Spoken reminders (speech synthesis) ---
+
+export const DEFAULT_VOICE_SETTINGS: VoiceReminderSettings = { enabled: true, rate: 0.9 };
+
+export const isSpeechAvailable = () => 'speechSynthesis' in window;
+
+export const getSpeechVoices = (): SpeechSynthesisVoice[] =>
+  isSpeechAvailable() ? window.speechSynthesis.getVoices() : [];
+
+// Most browsers load the voice list after the page; returns an unsubscribe function
+export const onSpeechVoicesChanged = (callback: () => void) => {
+  if (!isSpeechAvailable()) return () => {};
+  window.speechSynthesis.addEventListener('voiceschanged', callback);
+  return () => window.speechSynthesis.removeEventListener('voiceschanged', callback);
+};
+
+export const speakReminder = (text: string, settings: VoiceReminderSettings) => {
+  if (!isSpeechAvailable()) return;
+  const voices = getSpeechVoices();
+  const voice = voices.find(v => v.voiceURI === settings.voiceURI)
+    || (settings.lang ? voices.find(v => v.lang === settings.lang) : undefined);
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  if (voice) utterance.voice = voice;
+  if (settings.lang || voice) utterance.lang = settings.lang || voice!.lang;
+  utterance.rate = settings.rate;
+  window.speechSynthesis.speak(utterance);
+};
@@ -0,0 +1,226 @@
+import { Medication, LogEntry, Profile, ReminderDose, SnoozeEntry } from '../types';
+import { expandSchedules, getDosageForDate, toDateStr } from './scheduleService';
+import { findLogForDose } from './adherenceService';
+import { redactedReminder } from './profileLockService';
+import { NOTIFICATION_ACTIONS, reminderTag } from './reminderActionService';
+import { upcomingEscalations, escalationText, escalationTag, toReminderDose } from './escalationService';
+import { findNags, nagTag, snoozeTag } from './nagService';
+import { getNotificationDelivery, getQuietHoursEnd } from './quietHoursService';
+import { DEFAULT_PROFILE_ID, getMeta, setMeta } from './storageService';
+
+// Reminders that fire while the app is closed. The page expands the upcoming doses into a
+// plain list in the meta store (sw.js can't run the schedule code) and hands it to whatever
+// the browser offers: notification triggers fire each one on time, otherwise periodic
+// background sync lets the worker show whatever came due. The in-page loop in App still
+// covers browsers with neither. Keep the names here in step with sw.js.
+
+export const REMINDER_SCHEDULE_META_KEY = 'reminderSchedule';
+
+export const PERIODIC_SYNC_TAG = 'medication-reminders';
+
+// How far ahead reminders are handed over; the page refreshes the list whenever it runs
+const SCHEDULE_HORIZON_MS = 48 * 60 * 60 * 1000;
+
+// Browsers run periodic sync at most this often, and usually less
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface ScheduledReminder extends ReminderDose {
+  at: number;
+  title: string;
+  body: string;
+  tag: string;
+  withActions: boolean; // Take / Snooze / Skip buttons, left off when the text is redacted
+  silent?: boolean; // inside the profile's quiet hours; a worker can't vibrate on its own, so vibrate-only is silent too
+}
+
+// Generic text used while the app lock is on: the meta store isn't encrypted, so nothing identifying goes in it
+const APP_LOCK_REMINDER = { title: 'MediMind', body: 'You have a new reminder. Unlock MediMind to see it.' };
+
+export const REMINDER_ICON_URL = 'https://cdn-icons-png.flaticon.com/512/3063/3063822.png';
+
+// Text of a scheduled dose reminder
+export const doseReminderText = (med: Medication, profile: Profile | undefined, date: Date) => ({
+  title: 'MediMind Reminder',
+  body: `${profile?.name || 'User'}, take ${med.name} (${getDosageForDate(med, date)}) for your wellness.`
+});
+
+// What a spoken reminder says, e.g. "Grandma, time for Metformin 500 mg, with food."
+export const spokenReminderText = (med: Medication, profile: Profile | undefined, date: Date) => {
+  const instructions = med.notes?.split(/[.\n]/)[0].trim();
+  return `${profile?.name || 'User'}, time for ${med.name} ${getDosageForDate(med, date)}${instructions ? `, ${instructions}` : ''}.`;
+};
+
+export const snoozeReminderText = (med: Medication, profile: Profile | undefined) => ({
+  title: 'Snooze Reminder',
+  body: `${profile?.name || 'User'}, take ${med.name} for your wellness.`
+});
+
+export const nagReminderText = (med: Medication, profile: Profile | undefined, date: Date, repeat: number) => ({
+  ...doseReminderText(med, profile, date),
+  title: `MediMind Reminder (${repeat} of ${med.nag?.maxRepeats ?? repeat})`
+});
+
+// Every unlogged dose due in the horizon with its repeats, pending snoozes, and the escalation
+// steps of critical doses. Nobody is signed in to a profile while the app is closed, so
+// profiles with a PIN are always redacted.
+export const buildReminderSchedule = (
+  medications: Medication[],
+  logs: LogEntry[],
+  profiles: Profile[],
+  snoozes: SnoozeEntry[],
+  isAppLockEnabled: boolean,
+  now: Date = new Date()
+): ScheduledReminder[] => {
+  const until = new Date(now.getTime() + SCHEDULE_HORIZON_MS);
+  const findMed = (id: string) => medications.find(m => m.id === id);
+  const findProfile = (id?: string) => profiles.find(p => p.id === id);
+
+  // The given text, or the redacted / generic one when it mustn't be shown. Reminders held for
+  // quiet hours move to the end of the window and share the dose's tag, so only one is left.
+  const reminderFor = (med: Medication, reminderDose: ReminderDose, at: number, tag: string, text: { title: string; body: string }): ScheduledReminder => {
+    const profile = findProfile(reminderDose.profileId);
+    const shown = isAppLockEnabled ? APP_LOCK_REMINDER : profile?.pin ? redactedReminder(profile) : text;
+    const delivery = getNotificationDelivery(profile, med, new Date(at));
+    const isDeferred = delivery === 'defer';
+    return {
+      ...reminderDose,
+      at: isDeferred ? getQuietHoursEnd(profile!.quietHours!, new Date(at)).getTime() : at,
+      ...shown,
+      tag: isDeferred ? reminderTag(reminderDose) : tag,
+      withActions: !isAppLockEnabled && !profile?.pin,
+      silent: delivery === 'silent' || delivery === 'vibrate'
+    };
+  };
+
+  const reminders = expandSchedules(medications, now, until)
+    .filter(dose => !findLogForDose(dose, logs))
+    .flatMap(dose => {
+      const med = findMed(dose.medicationId);
+      if (!med) return [];
+      const reminderDose = toReminderDose(dose, med, DEFAULT_PROFILE_ID);
+      const text = doseReminderText(med, findProfile(reminderDose.profileId), new Date(dose.timestamp));
+      return [reminderFor(med, reminderDose, dose.timestamp, reminderTag(reminderDose), text)];
+    });
+
+  const nags = findNags(medications, logs, snoozes, now, until).flatMap(({ dose, repeat, at }) => {
+    const med = findMed(dose.medicationId);
+    if (!med) return [];
+    const reminderDose = toReminderDose(dose, med, DEFAULT_PROFILE_ID);
+    const text = nagReminderText(med, findProfile(reminderDose.profileId), new Date(dose.timestamp), repeat);
+    return [reminderFor(med, reminderDose, at, nagTag(reminderDose, repeat), text)];
+  });
+
+  const snoozed = snoozes.filter(s => s.wakeUpTime > now.getTime()).flatMap(snooze => {
+    const med = findMed(snooze.medicationId);
+    if (!med) return [];
+    const reminderDose: ReminderDose = {
+      medicationId: med.id,
+      profileId: med.profileId || DEFAULT_PROFILE_ID,
+      scheduledTime: snooze.scheduledTime,
+      dateStr: snooze.dateStr || toDateStr(now)
+    };
+    const text = snoozeReminderText(med, findProfile(reminderDose.profileId));
+    return [reminderFor(med, reminderDose, snooze.wakeUpTime, snoozeTag(reminderDose), text)];
+  });
+
+  // Escalation text already leaves the medication out for PIN profiles, and the caregiver alerts carry no buttons
+  const escalations = upcomingEscalations(medications, logs, now, until).flatMap(({ dose, step, at }) => {
+    const med = findMed(dose.medicationId);
+    if (!med) return [];
+    const reminderDose = toReminderDose(dose, med, DEFAULT_PROFILE_ID);
+    const patient = findProfile(reminderDose.profileId);
+    const text = isAppLockEnabled
+      ? APP_LOCK_REMINDER
+      : escalationText(step, med, dose, patient, findProfile(patient?.caregiverProfileId), !!patient?.pin);
+    const withActions = step === 'renotify' && !isAppLockEnabled && !patient?.pin;
+    return [{ ...reminderDose, at, ...text, tag: escalationTag(reminderDose, step), withActions }];
+  });
+
+  return [...reminders, ...nags, ...snoozed, ...escalations].sort((a, b) => a.at - b.at);
+};
+
+export const supportsNotificationTriggers = () =>
+  typeof Notification !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+const getRegistration = async (): Promise<ServiceWorkerRegistration | undefined> => {
+  if (!('serviceWorker' in navigator)) return undefined;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration?.active ? registration : undefined;
+  } catch (e) {
+    console.warn('Could not get SW registration for background reminders', e);
+    return undefined;
+  }
+};
+
+const toDose = ({ medicationId, profileId, scheduledTime, dateStr }: ScheduledReminder): ReminderDose =>
+  ({ medicationId, profileId, scheduledTime, dateStr });
+
+// Replace the previously scheduled trigger notifications with the new list
+const scheduleTriggers = async (registration: ServiceWorkerRegistration, schedule: ScheduledReminder[]) => {
+  const pending = await registration.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+  pending.filter(n => (n as any).showTrigger).forEach(n => n.close());
+
+  const now = Date.now();
+  await Promise.all(schedule.filter(r => r.at > now).map(r =>
+    registration.showNotification(r.title, {
+      body: r.body,
+      icon: REMINDER_ICON_URL,
+      tag: r.tag,
+      requireInteraction: true,
+      vibrate: [200, 100, 200],
+      silent: !!r.silent,
+      ...(r.withActions && { data: toDose(r), actions: NOTIFICATION_ACTIONS }),
+      showTrigger: new (window as any).TimestampTrigger(r.at)
+    } as NotificationOptions)
+  ));
+};
+
+// Ask for periodic wake-ups where the browser allows them (installed PWAs with the permission)
+const registerPeriodicSync = async (registration: ServiceWorkerRegistration) => {
+  const periodicSync = (registration as any).periodicSync;
+  if (!periodicSync) return;
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state !== 'granted') return;
+    await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS });
+  } catch (e) {
+    console.warn('Periodic background sync is not available', e);
+  }
+};
+
+// Store the upcoming reminders and hand them to the service worker
+export const syncBackgroundReminders = async (schedule: ScheduledReminder[]): Promise<void> => {
+  await setMeta(REMINDER_SCHEDULE_META_KEY, schedule);
+  const registration = await getRegistration();
+  if (!registration) return;
+
+  if (supportsNotificationTriggers()) {
+    await scheduleTriggers(registration, schedule);
+  } else {
+    await registerPeriodicSync(registration);
+  }
+};
+
+// The app isn't mounted behind the lock screen, so an open tab shows what comes due from the
+// stored schedule instead, always with the generic text since anyone may be looking
+export const showLockedReminders = async (from: number, to: number): Promise<void> => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const schedule = (await getMeta<ScheduledReminder[]>(REMINDER_SCHEDULE_META_KEY)) || [];
+  const due = schedule.filter(r => r.at > from && r.at <= to);
+  if (due.length === 0) return;
+
+  const registration = await getRegistration();
+  due.forEach(r => {
+    const options = {
+      body: APP_LOCK_REMINDER.body,
+      icon: REMINDER_ICON_URL,
+      tag: r.tag,
+      requireInteraction: true,
+      vibrate: [200, 100, 200],
+      silent: !!r.silent
+    } as NotificationOptions;
+    if (registration) registration.showNotification(APP_LOCK_REMINDER.title, options);
+    else new Notification(APP_LOCK_REMINDER.title, options);
+  });
+};
@@ -0,0 +1,160 @@
+import { StoreName, StoreRecords, STORE_NAMES } from './storageService';
+import { EncryptedPayload, encryptWithPassphrase, decryptWithPassphrase } from './cryptoService';
+import { downloadFile } from './downloadService';
+
+// Backup files are a versioned JSON bundle of every store, optionally encrypted as a whole.
+
+const BACKUP_FORMAT = 'medimind-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupData = { [K in StoreName]: StoreRecords[K][] };
+
+interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  data: BackupData;
+}
+
+interface EncryptedBackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  encrypted: EncryptedPayload;
+}
+
+export const STORE_LABELS: Record<StoreName, string> = {
+  profiles: 'Profiles',
+  medications: 'Medications',
+  logs: 'Dose logs',
+  vitals: 'Vitals',
+  appointments: 'Appointments',
+  moods: 'Moods',
+  goals: 'Goals',
+  sounds: 'Reminder sounds'
+};
+
+// Fields every record of a store must carry, by type
+const REQUIRED_FIELDS: Record<StoreName, Record<string, 'string' | 'number' | 'array'>> = {
+  profiles: { id: 'string', name: 'string' },
+  medications: { id: 'string', name: 'string', dosage: 'string', frequency: 'string', times: 'array', currentStock: 'number' },
+  logs: { id: 'string', medicationId: 'string', timestamp: 'number', status: 'string', dateStr: 'string' },
+  vitals: { id: 'string', type: 'string', timestamp: 'number', dateStr: 'string' },
+  appointments: { id: 'string', doctorName: 'string', date: 'string' },
+  moods: { id: 'string', type: 'string', timestamp: 'number', dateStr: 'string' },
+  goals: { id: 'string', title: 'string', target: 'number' },
+  sounds: { id: 'string', name: 'string', data: 'string' }
+};
+
+const hasType = (value: unknown, type: 'string' | 'number' | 'array') =>
+  type === 'array' ? Array.isArray(value) : typeof value === type;
+
+// Check a decoded bundle's data against the schema. Returns the data or throws with the first problem found.
+export const validateBackupData = (raw: unknown): BackupData => {
+  if (!raw || typeof raw !== 'object') throw new Error('The backup contains no data.');
+  const data = raw as Record<string, unknown>;
+
+  STORE_NAMES.forEach(store => {
+    const records = data[store] ?? [];
+    if (!Array.isArray(records)) throw new Error(`${STORE_LABELS[store]} in the backup are not a list.`);
+    records.forEach((record, index) => {
+      if (!record || typeof record !== 'object') throw new Error(`${STORE_LABELS[store]} entry ${index + 1} is not valid.`);
+      Object.entries(REQUIRED_FIELDS[store]).forEach(([field, type]) => {
+        if (!hasType((record as Record<string, unknown>)[field], type)) {
+          throw new Error(`${STORE_LABELS[store]} entry ${index + 1} is missing a valid "${field}".`);
+        }
+      });
+    });
+  });
+
+  return Object.fromEntries(STORE_NAMES.map(store => [store, data[store] ?? []])) as BackupData;
+};
+
+export const createBackup = async (data: BackupData, passphrase?: string): Promise<string> => {
+  const createdAt = new Date().toISOString();
+  if (passphrase) {
+    const bundle: EncryptedBackupBundle = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt,
+      encrypted: await encryptWithPassphrase(JSON.stringify(data), passphrase)
+    };
+    return JSON.stringify(bundle);
+  }
+  const bundle: BackupBundle = { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt, data };
+  return JSON.stringify(bundle, null, 2);
+};
+
+export interface BackupFileInfo {
+  createdAt: string;
+  encrypted: boolean;
+}
+
+const parseBundle = (text: string): BackupBundle | EncryptedBackupBundle => {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a MediMind backup.');
+  }
+  if (!bundle || bundle.format !== BACKUP_FORMAT) throw new Error('This file is not a MediMind backup.');
+  if (typeof bundle.version !== 'number' || bundle.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of MediMind. Please update the app first.');
+  }
+  return bundle;
+};
+
+// Read the header of a backup file without decrypting it
+export const inspectBackup = (text: string): BackupFileInfo => {
+  const bundle = parseBundle(text);
+  return { createdAt: bundle.createdAt, encrypted: 'encrypted' in bundle };
+};
+
+export const readBackup = async (text: string, passphrase?: string): Promise<BackupData> => {
+  const bundle = parseBundle(text);
+  if (!('encrypted' in bundle)) return validateBackupData(bundle.data);
+
+  if (!passphrase) throw new Error('This backup is encrypted. Enter its passphrase to restore it.');
+  let decrypted: string;
+  try {
+    decrypted = await decryptWithPassphrase(bundle.encrypted, passphrase);
+  } catch {
+    throw new Error('Wrong passphrase, or the backup file is damaged.');
+  }
+  return validateBackupData(JSON.parse(decrypted));
+};
+
+export type RestoreMode = 'merge' | 'replace';
+export type ConflictPolicy = 'keep-existing' | 'use-backup';
+
+// Records present both here and in the backup, per store
+export const countConflicts = (current: BackupData, incoming: BackupData): number =>
+  STORE_NAMES.reduce((sum, store) => {
+    const ids = new Set(current[store].map(r => r.id));
+    return sum + incoming[store].filter(r => ids.has(r.id)).length;
+  }, 0);
+
+// Replace everything with the backup, or merge it in by id. On merge, records that
+// exist on both sides are resolved with the conflict policy; everything else is kept.
+export const restoreBackup = (current: BackupData, incoming: BackupData, mode: RestoreMode, conflicts: ConflictPolicy): BackupData => {
+  if (mode === 'replace') return incoming;
+
+  const mergeStore = <K extends StoreName>(store: K): StoreRecords[K][] => {
+    const incomingById = new Map(incoming[store].map(r => [r.id, r]));
+    const merged = current[store].map(r =>
+      conflicts === 'use-backup' && incomingById.has(r.id) ? incomingById.get(r.id)! : r
+    );
+    const currentIds = new Set(current[store].map(r => r.id));
+    return [...merged, ...incoming[store].filter(r => !currentIds.has(r.id))];
+  };
+
+  return Object.fromEntries(STORE_NAMES.map(store => [store, mergeStore(store)])) as BackupData;
+};
+
+export const downloadBackup = (contents: string, encrypted: boolean) => {
+  downloadFile(
+    [contents],
+    'application/json',
+    `MediMind_Backup_${new Date().toISOString().slice(0, 10)}${encrypted ? '_encrypted' : ''}.json`
+  );
+};
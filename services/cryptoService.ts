@@ -0,0 +1,64 @@
+// Passphrase-based encryption with WebCrypto: PBKDF2-SHA-256 key derivation and AES-GCM.
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedPayload {
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // base64 ciphertext
+}
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const randomBytes = (length: number): Uint8Array<ArrayBuffer> =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+export const isCryptoAvailable = () => !!(window.crypto && window.crypto.subtle);
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptWithKey = async (key: CryptoKey, plaintext: string): Promise<{ iv: string; data: string }> => {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+// Rejects when the key is wrong or the data was tampered with (AES-GCM authenticates the ciphertext)
+export const decryptWithKey = async (key: CryptoKey, iv: string, data: string): Promise<string> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+  return new TextDecoder().decode(plaintext);
+};
+
+export const encryptWithPassphrase = async (plaintext: string, passphrase: string): Promise<EncryptedPayload> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt);
+  const { iv, data } = await encryptWithKey(key, plaintext);
+  return {
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv },
+    data
+  };
+};
+
+export const decryptWithPassphrase = async (payload: EncryptedPayload, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(payload.kdf.salt), payload.kdf.iterations);
+  return decryptWithKey(key, payload.cipher.iv, payload.data);
+};
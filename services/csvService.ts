@@ -0,0 +1,334 @@
+import { Medication, LogEntry, VitalEntry, VitalType } from '../types';
+import { getDosageForDate, getDoseQuantity, parseDateStr } from './scheduleService';
+import { downloadFile } from './downloadService';
+import { v4 as uuidv4 } from 'uuid';
+import { format } from 'date-fns';
+
+// CSV export of dose logs and vitals for spreadsheets, and CSV import of vitals from
+// glucometer / blood pressure cuff desktop software.
+
+const MMOL_TO_MG_DL = 18.016;
+const LB_TO_KG = 0.45359237;
+
+// ---- Reading and writing CSV ----
+
+const escapeCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]) =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+// Exported files are often opened in spreadsheet apps that need the BOM to read UTF-8
+export const downloadCsv = (contents: string, filename: string) => {
+  downloadFile(['\uFEFF' + contents], 'text/csv;charset=utf-8', filename);
+};
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Comma, semicolon (European locales) or tab, whichever splits the header line the most
+const detectDelimiter = (firstLine: string) =>
+  [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+export const parseCsv = (text: string): CsvTable => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] || '');
+  const records: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      records.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    records.push(row);
+  }
+
+  const nonEmpty = records.filter(r => r.some(c => c !== ''));
+  if (nonEmpty.length < 2) throw new Error('The file needs a header row and at least one row of readings.');
+  const [headers, ...rows] = nonEmpty;
+  return { headers, rows };
+};
+
+// ---- Export ----
+
+const inRange = (dateStr: string, from: string, to: string) => dateStr >= from && dateStr <= to;
+
+// Dose logs joined with the medication they belong to, oldest first. from / to are inclusive YYYY-MM-DD.
+export const logsToCsv = (medications: Medication[], logs: LogEntry[], from: string, to: string): string => {
+  const medsById = new Map(medications.map(m => [m.id, m]));
+  const rows = logs
+    .filter(l => inRange(l.dateStr, from, to))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(log => {
+      const med = medsById.get(log.medicationId);
+      const date = parseDateStr(log.dateStr);
+      return [
+        log.dateStr,
+        log.scheduledTime && /^\d{2}:\d{2}$/.test(log.scheduledTime) ? log.scheduledTime : '',
+        log.status === 'MISSED' ? '' : format(new Date(log.timestamp), 'yyyy-MM-dd HH:mm'),
+        log.status,
+        med?.name || 'Deleted medication',
+        med ? getDosageForDate(med, date) : '',
+        med ? getDoseQuantity(med, date) : '',
+        med?.stockUnit || ''
+      ];
+    });
+  return toCsv([['Date', 'Scheduled Time', 'Logged At', 'Status', 'Medication', 'Dosage', 'Dose Quantity', 'Unit'], ...rows]);
+};
+
+export const vitalsToCsv = (vitals: VitalEntry[], from: string, to: string): string => {
+  const rows = vitals
+    .filter(v => inRange(v.dateStr, from, to))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(v => {
+      const [systolic, diastolic] = v.type === 'BLOOD_PRESSURE' ? v.value.split('/') : [];
+      return [
+        v.dateStr,
+        format(new Date(v.timestamp), 'HH:mm'),
+        v.type,
+        v.type === 'BLOOD_PRESSURE' ? '' : v.value,
+        systolic ?? '',
+        diastolic ?? '',
+        v.unit
+      ];
+    });
+  return toCsv([['Date', 'Time', 'Type', 'Value', 'Systolic', 'Diastolic', 'Unit'], ...rows]);
+};
+
+// ---- Vitals import ----
+
+export type VitalColumnRole =
+  | 'ignore' | 'datetime' | 'date' | 'time' | 'systolic' | 'diastolic'
+  | 'bloodPressure' | 'heartRate' | 'glucose' | 'weight' | 'unit';
+
+export const VITAL_COLUMN_ROLES: { value: VitalColumnRole; label: string }[] = [
+  { value: 'ignore', label: "Don't import" },
+  { value: 'datetime', label: 'Date & time' },
+  { value: 'date', label: 'Date' },
+  { value: 'time', label: 'Time' },
+  { value: 'systolic', label: 'Systolic' },
+  { value: 'diastolic', label: 'Diastolic' },
+  { value: 'bloodPressure', label: 'Blood pressure (120/80)' },
+  { value: 'heartRate', label: 'Heart rate / pulse' },
+  { value: 'glucose', label: 'Glucose' },
+  { value: 'weight', label: 'Weight' },
+  { value: 'unit', label: 'Unit' }
+];
+
+export type DateOrder = 'YMD' | 'MDY' | 'DMY';
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+export type WeightUnit = 'kg' | 'lb';
+
+export interface VitalCsvMapping {
+  roles: VitalColumnRole[]; // one per column
+  dateOrder: DateOrder;
+  glucoseUnit: GlucoseUnit;
+  weightUnit: WeightUnit;
+}
+
+// Header keywords, checked in order so "Systolic (mmHg)" isn't read as a plain BP column
+const ROLE_KEYWORDS: [VitalColumnRole, RegExp][] = [
+  ['systolic', /\bsys/i],
+  ['diastolic', /\bdia/i],
+  ['heartRate', /pulse|heart|\bhr\b|bpm/i],
+  ['glucose', /glucose|sugar|\bbg\b|\bbgl\b/i],
+  ['weight', /weight|\bmass\b/i],
+  ['bloodPressure', /blood ?pressure|\bbp\b/i],
+  ['unit', /^units?$/i],
+  ['datetime', /date.?time|timestamp/i],
+  ['date', /date|\bday\b/i],
+  ['time', /time/i]
+];
+
+const DATE_PARTS = /(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/;
+const TIME_PARTS = /(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?/i;
+
+// The user's locale decides ambiguous dates like 03/04/2025
+const localeDateOrder = (): DateOrder => {
+  const parts = new Intl.DateTimeFormat().formatToParts(new Date(2025, 10, 22)).map(p => p.type);
+  const order = parts.filter(t => t === 'day' || t === 'month' || t === 'year');
+  return order[0] === 'year' ? 'YMD' : order[0] === 'day' ? 'DMY' : 'MDY';
+};
+
+const detectDateOrder = (samples: string[]): DateOrder => {
+  for (const sample of samples) {
+    const m = sample.match(DATE_PARTS);
+    if (!m) continue;
+    if (m[1].length === 4) return 'YMD';
+    if (Number(m[1]) > 12) return 'DMY';
+    if (Number(m[2]) > 12) return 'MDY';
+  }
+  return localeDateOrder();
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const numbersIn = (table: CsvTable, column: number) =>
+  table.rows.map(r => parseFloat((r[column] || '').replace(',', '.'))).filter(n => !isNaN(n));
+
+// Units come from the header ("Glucose (mmol/L)"), a unit column, or failing that the size of the values
+const detectGlucoseUnit = (table: CsvTable, roles: VitalColumnRole[]): GlucoseUnit => {
+  const column = roles.indexOf('glucose');
+  const unitColumn = roles.indexOf('unit');
+  const hints = [table.headers[column] || '', ...(unitColumn >= 0 ? table.rows.slice(0, 20).map(r => r[unitColumn] || '') : [])].join(' ');
+  if (/mmol/i.test(hints)) return 'mmol/L';
+  if (/mg/i.test(hints)) return 'mg/dL';
+  const values = column >= 0 ? numbersIn(table, column) : [];
+  // Blood glucose in mmol/L stays well under 35; in mg/dL it's rarely below 40
+  return values.length > 0 && median(values) < 35 ? 'mmol/L' : 'mg/dL';
+};
+
+const detectWeightUnit = (table: CsvTable, roles: VitalColumnRole[]): WeightUnit => {
+  const column = roles.indexOf('weight');
+  const unitColumn = roles.indexOf('unit');
+  const hints = [table.headers[column] || '', ...(unitColumn >= 0 ? table.rows.slice(0, 20).map(r => r[unitColumn] || '') : [])].join(' ');
+  return /\blbs?\b|pound/i.test(hints) ? 'lb' : 'kg';
+};
+
+export const guessVitalMapping = (table: CsvTable): VitalCsvMapping => {
+  const used = new Set<VitalColumnRole>();
+  const roles = table.headers.map(header => {
+    const match = ROLE_KEYWORDS.find(([role, pattern]) => !used.has(role) && pattern.test(header));
+    if (!match) return 'ignore' as VitalColumnRole;
+    used.add(match[0]);
+    return match[0];
+  });
+  const dateColumn = roles.findIndex(r => r === 'date' || r === 'datetime');
+  return {
+    roles,
+    dateOrder: detectDateOrder(dateColumn >= 0 ? table.rows.slice(0, 50).map(r => r[dateColumn] || '') : []),
+    glucoseUnit: detectGlucoseUnit(table, roles),
+    weightUnit: detectWeightUnit(table, roles)
+  };
+};
+
+// Re-run unit detection after the user changes which column is which
+export const detectVitalUnits = (table: CsvTable, roles: VitalColumnRole[]) => ({
+  glucoseUnit: detectGlucoseUnit(table, roles),
+  weightUnit: detectWeightUnit(table, roles)
+});
+
+const parseTimestamp = (dateText: string, timeText: string, order: DateOrder): Date | null => {
+  const d = dateText.match(DATE_PARTS);
+  if (!d) return null;
+  const [a, b, c] = [Number(d[1]), Number(d[2]), Number(d[3])];
+  const [year, month, day] = order === 'YMD' ? [a, b, c] : order === 'MDY' ? [c, a, b] : [c, b, a];
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  let hours = 12;
+  let minutes = 0;
+  const t = timeText.match(TIME_PARTS);
+  if (t) {
+    hours = Number(t[1]) % (t[3] ? 12 : 24);
+    minutes = Number(t[2]);
+    if (t[3] && /p/i.test(t[3])) hours += 12;
+  }
+  const date = new Date(fullYear, month - 1, day, hours, minutes);
+  return date.getMonth() === month - 1 ? date : null;
+};
+
+export interface VitalImportResult {
+  vitals: VitalEntry[];
+  invalidRows: number;
+  duplicates: number;
+}
+
+const readNumber = (text: string | undefined) => {
+  const n = parseFloat((text || '').replace(',', '.'));
+  return isNaN(n) ? null : n;
+};
+
+// Turn the mapped rows into vitals in the app's units (mmHg, bpm, mg/dL, kg).
+// A row can hold several readings (a cuff logs BP and pulse together). Readings already
+// recorded with the same type, time and value are left out.
+export const buildVitalsFromCsv = (table: CsvTable, mapping: VitalCsvMapping, existing: VitalEntry[]): VitalImportResult => {
+  const col = (role: VitalColumnRole) => mapping.roles.indexOf(role);
+  const seen = new Set(existing.map(v => `${v.type}|${v.timestamp}|${v.value}`));
+  const result: VitalImportResult = { vitals: [], invalidRows: 0, duplicates: 0 };
+
+  table.rows.forEach(row => {
+    const cell = (role: VitalColumnRole) => col(role) >= 0 ? row[col(role)] : undefined;
+    const dateText = cell('datetime') ?? cell('date') ?? '';
+    const timeText = cell('time') ?? cell('datetime') ?? dateText;
+    const when = parseTimestamp(dateText, timeText, mapping.dateOrder);
+    const rowUnit = cell('unit') || '';
+
+    const readings: { type: VitalType; value: string; unit: string }[] = [];
+
+    const combined = cell('bloodPressure')?.match(/(\d{2,3})\s*\/\s*(\d{2,3})/);
+    const systolic = combined ? Number(combined[1]) : readNumber(cell('systolic'));
+    const diastolic = combined ? Number(combined[2]) : readNumber(cell('diastolic'));
+    if (systolic && diastolic) readings.push({ type: 'BLOOD_PRESSURE', value: `${Math.round(systolic)}/${Math.round(diastolic)}`, unit: 'mmHg' });
+
+    const heartRate = readNumber(cell('heartRate'));
+    if (heartRate) readings.push({ type: 'HEART_RATE', value: String(Math.round(heartRate)), unit: 'bpm' });
+
+    const glucose = readNumber(cell('glucose'));
+    if (glucose) {
+      const isMmol = /mmol/i.test(rowUnit) || (!/mg/i.test(rowUnit) && mapping.glucoseUnit === 'mmol/L');
+      readings.push({ type: 'GLUCOSE', value: String(Math.round(isMmol ? glucose * MMOL_TO_MG_DL : glucose)), unit: 'mg/dL' });
+    }
+
+    const weight = readNumber(cell('weight'));
+    if (weight) {
+      const isLb = /\blbs?\b/i.test(rowUnit) || (!/kg/i.test(rowUnit) && mapping.weightUnit === 'lb');
+      readings.push({ type: 'WEIGHT', value: String(Math.round((isLb ? weight * LB_TO_KG : weight) * 10) / 10), unit: 'kg' });
+    }
+
+    if (!when || readings.length === 0) {
+      result.invalidRows++;
+      return;
+    }
+
+    readings.forEach(reading => {
+      const key = `${reading.type}|${when.getTime()}|${reading.value}`;
+      if (seen.has(key)) {
+        result.duplicates++;
+        return;
+      }
+      seen.add(key);
+      result.vitals.push({
+        id: uuidv4(),
+        ...reading,
+        dateStr: format(when, 'yyyy-MM-dd'),
+        timestamp: when.getTime()
+      });
+    });
+  });
+
+  return result;
+};
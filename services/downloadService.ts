@@ -0,0 +1,12 @@
+// Save generated contents as a file through a temporary link. The object URL is released
+// on a later tick: revoking it straight after click() cancels the download in some browsers.
+export const downloadFile = (contents: BlobPart[], type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob(contents, { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
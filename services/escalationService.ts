@@ -0,0 +1,134 @@
+import { Medication, LogEntry, Profile, EscalationStep, EscalationPlan, ReminderDose } from '../types';
+import { DoseOccurrence, expandSchedule, getDosageForDate } from './scheduleService';
+import { reminderTag } from './reminderActionService';
+
+const MINUTE_MS = 60 * 1000;
+
+// Doses older than this are left to the missed-dose history rather than escalated
+const ESCALATION_LOOKBACK_MS = 24 * 60 * MINUTE_MS;
+
+export const ESCALATION_STEPS: { step: EscalationStep; label: string }[] = [
+  { step: 'renotify', label: 'Remind Again' },
+  { step: 'caregiver', label: 'Alert Caregiver' },
+  { step: 'emergency', label: 'Emergency Call' }
+];
+
+export const DEFAULT_ESCALATION_PLAN: Required<EscalationPlan> = { renotify: 15, caregiver: 45, emergency: 120 };
+
+export const ESCALATION_MINUTE_OPTIONS = [10, 15, 30, 45, 60, 90, 120, 180, 240];
+
+export interface DueEscalation {
+  dose: DoseOccurrence;
+  step: EscalationStep;
+}
+
+// Steps already sent, keyed by escalationKey, with when they went out
+export type SentEscalations = Record<string, number>;
+
+export const SENT_ESCALATIONS_META_KEY = 'sentEscalations';
+
+export const escalationKey = (dose: DoseOccurrence, step: EscalationStep) =>
+  `${dose.medicationId}:${dose.dateStr}:${dose.time}:${step}`;
+
+export const toReminderDose = (dose: DoseOccurrence, med: Medication, defaultProfileId: string): ReminderDose =>
+  ({ medicationId: dose.medicationId, profileId: med.profileId || defaultProfileId, scheduledTime: dose.time, dateStr: dose.dateStr });
+
+// Each step gets its own tag so a scheduled step doesn't replace the dose's pending reminder
+export const escalationTag = (dose: ReminderDose, step: EscalationStep) => `${reminderTag(dose)}:${step}`;
+
+// Steps in the order they fire
+const planSteps = (plan: EscalationPlan) =>
+  ESCALATION_STEPS
+    .filter(({ step }) => plan[step] !== undefined)
+    .sort((a, b) => plan[a.step]! - plan[b.step]!)
+    .map(({ step }) => step);
+
+// Only taking or skipping a dose stops the chain; the automatic MISSED entry doesn't
+export const isDoseAcknowledged = (dose: DoseOccurrence, logs: LogEntry[]) =>
+  logs.some(l =>
+    l.medicationId === dose.medicationId &&
+    l.dateStr === dose.dateStr &&
+    l.scheduledTime === dose.time &&
+    l.status !== 'MISSED'
+  );
+
+// The step each unacknowledged dose has reached and not yet sent. When several came due while
+// the app was closed only the furthest one is returned, and the earlier ones count as sent.
+export const findDueEscalations = (
+  medications: Medication[],
+  logs: LogEntry[],
+  sent: SentEscalations,
+  now: Date = new Date()
+): { due: DueEscalation[]; skipped: string[] } => {
+  const due: DueEscalation[] = [];
+  const skipped: string[] = [];
+  medications.filter(med => med.escalation).forEach(med => {
+    const steps = planSteps(med.escalation!);
+    const from = new Date(Math.max(now.getTime() - ESCALATION_LOOKBACK_MS, med.createdAt || 0));
+    expandSchedule(med, from, now)
+      .filter(dose => !isDoseAcknowledged(dose, logs))
+      .forEach(dose => {
+        const reached = steps.filter(step => dose.timestamp + med.escalation![step]! * MINUTE_MS <= now.getTime());
+        const latest = reached[reached.length - 1];
+        if (!latest || sent[escalationKey(dose, latest)]) return;
+        due.push({ dose, step: latest });
+        reached.slice(0, -1).forEach(step => {
+          if (!sent[escalationKey(dose, step)]) skipped.push(escalationKey(dose, step));
+        });
+      });
+  });
+  return { due, skipped };
+};
+
+// Every step still to come for unacknowledged doses, with when it fires
+export const upcomingEscalations = (
+  medications: Medication[],
+  logs: LogEntry[],
+  now: Date,
+  until: Date
+): (DueEscalation & { at: number })[] =>
+  medications.filter(med => med.escalation).flatMap(med => {
+    const steps = planSteps(med.escalation!);
+    if (steps.length === 0) return [];
+    const longest = Math.max(...steps.map(step => med.escalation![step]!));
+    return expandSchedule(med, new Date(now.getTime() - longest * MINUTE_MS), until)
+      .filter(dose => !isDoseAcknowledged(dose, logs))
+      .flatMap(dose => steps.map(step => ({ dose, step, at: dose.timestamp + med.escalation![step]! * MINUTE_MS })))
+      .filter(e => e.at > now.getTime() && e.at < until.getTime());
+  });
+
+// Forget sent steps for doses that can no longer escalate
+export const pruneSentEscalations = (sent: SentEscalations, now: Date = new Date()): SentEscalations =>
+  Object.fromEntries(Object.entries(sent).filter(([, at]) => at > now.getTime() - 2 * ESCALATION_LOOKBACK_MS));
+
+// Notification text for a step. Redacted text leaves out the medication for PIN-protected profiles.
+export const escalationText = (
+  step: EscalationStep,
+  med: Medication,
+  dose: DoseOccurrence,
+  patient: Profile | undefined,
+  caregiver: Profile | undefined,
+  isRedacted: boolean
+) => {
+  const name = patient?.name || 'User';
+  const what = isRedacted ? 'a dose' : `${med.name} (${getDosageForDate(med, new Date(dose.timestamp))})`;
+  switch (step) {
+    case 'renotify':
+      return { title: 'Reminder: dose not logged yet', body: `${name}, please take ${what}. It was due at ${dose.time}.` };
+    case 'caregiver':
+      return {
+        title: `Check on ${name}`,
+        body: `${caregiver ? `${caregiver.name}, ` : ''}${name} hasn't logged ${what} due at ${dose.time}.`
+      };
+    case 'emergency': {
+      const contact = patient?.emergencyContact;
+      const due = `${what.charAt(0).toUpperCase()}${what.slice(1)} was due at ${dose.time}.`;
+      return {
+        title: `${name} still hasn't taken a critical dose`,
+        body: contact?.phone
+          ? `${due} Call ${contact.name || 'the emergency contact'} on ${contact.phone}.`
+          : `${due} No emergency contact is set for ${name}.`
+      };
+    }
+  }
+};
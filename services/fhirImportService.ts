@@ -0,0 +1,373 @@
+import { Medication, FrequencyType, DosePhase, StockUnit } from '../types';
+import { FhirResource, FHIR_DAYS, IDENTIFIER_SYSTEM, CYCLE_EXTENSION_URL } from './fhirService';
+import { STOCK_UNITS } from './inventoryService';
+import { v4 as uuidv4 } from 'uuid';
+import { format, addDays, addWeeks, addMonths } from 'date-fns';
+
+// Import medication lists (a discharge summary, another app's export) from FHIR R4:
+// a Bundle, a List, an array or a single MedicationRequest / MedicationStatement.
+// Timing we can't express is kept as an as-needed medication with reviewNotes, so it never
+// raises reminders or missed doses until someone has checked it in the edit form.
+
+export interface FhirImportResult {
+  medications: Medication[];
+  skipped: { name: string; reason: string }[];
+}
+
+const MEDICATION_TYPES = ['MedicationRequest', 'MedicationStatement'];
+
+// Entries that no longer describe something the patient takes
+const INACTIVE_STATUSES = ['stopped', 'cancelled', 'completed', 'entered-in-error', 'not-taken', 'revoked'];
+
+// Event codes (http://hl7.org/fhir/event-timing) to clock times
+const WHEN_TIMES: Record<string, string> = {
+  WAKE: '07:00', MORN: '08:00', 'MORN.early': '07:00', 'MORN.late': '10:00',
+  NOON: '12:00', AFT: '14:00', 'AFT.early': '13:00', 'AFT.late': '16:00',
+  EVE: '18:00', 'EVE.early': '17:00', 'EVE.late': '20:00', NIGHT: '22:00', PHS: '22:00', HS: '22:00',
+  ACM: '07:30', CM: '08:00', PCM: '08:30',
+  ACD: '12:30', CD: '13:00', PCD: '13:30',
+  ACV: '18:30', CV: '19:00', PCV: '19:30'
+};
+
+// Spread over the waking day when only "N times a day" is given
+const DEFAULT_TIMES: Record<number, string[]> = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+  4: ['08:00', '12:00', '16:00', '20:00']
+};
+
+const spreadTimes = (count: number): string[] => {
+  if (DEFAULT_TIMES[count]) return DEFAULT_TIMES[count];
+  const step = Math.floor((16 * 60) / (count - 1));
+  return Array.from({ length: count }, (_, i) => {
+    const minutes = 6 * 60 + i * step;
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  });
+};
+
+const UNIT_MINUTES: Record<string, number> = { s: 1 / 60, min: 1, h: 60, d: 24 * 60 };
+
+// UCUM and common dose form units to our stock units
+const UNIT_ALIASES: Record<string, StockUnit> = {
+  tab: 'tablets', '{tbl}': 'tablets', '{tablet}': 'tablets', cap: 'capsules', '{capsule}': 'capsules',
+  ml: 'ml', '[iu]': 'units', iu: 'units', u: 'units', '{puff}': 'puffs', '{patch}': 'patches', '[drp]': 'drops'
+};
+
+const toStockUnit = (unit?: string): StockUnit | undefined => {
+  if (!unit) return undefined;
+  const key = unit.toLowerCase();
+  const known = STOCK_UNITS.find(u => u.value === key || u.singular === key || u.label.toLowerCase() === key);
+  return known?.value || UNIT_ALIASES[key];
+};
+
+const toTime = (fhirTime: string) => fhirTime.slice(0, 5);
+
+const addInterval = (dateStr: string, value: number, unit: string): string | undefined => {
+  const start = new Date(dateStr + 'T00:00');
+  // End dates are inclusive, so a 7 day course starting Monday ends on Sunday
+  switch (unit) {
+    case 'd': return format(addDays(start, value - 1), 'yyyy-MM-dd');
+    case 'wk': return format(addDays(addWeeks(start, value), -1), 'yyyy-MM-dd');
+    case 'mo': return format(addDays(addMonths(start, value), -1), 'yyyy-MM-dd');
+    default: return undefined;
+  }
+};
+
+const durationInDays = (value: number, unit: string): number | null =>
+  unit === 'd' ? value : unit === 'wk' ? value * 7 : null;
+
+const dayNumbers = (days: string[]) => days.map(d => FHIR_DAYS.indexOf(d)).filter(d => d >= 0).sort();
+
+// Collect every resource in whatever shape the file has, keyed for reference lookup
+const collectResources = (input: any): { resources: FhirResource[]; byRef: Map<string, FhirResource> } => {
+  const resources: FhirResource[] = [];
+  const byRef = new Map<string, FhirResource>();
+
+  const visit = (resource: any, fullUrl?: string) => {
+    if (!resource || typeof resource !== 'object') return;
+    if (Array.isArray(resource)) return resource.forEach(r => visit(r));
+    if (typeof resource.resourceType !== 'string') return;
+
+    if (fullUrl) byRef.set(fullUrl, resource);
+    if (resource.id) byRef.set(`${resource.resourceType}/${resource.id}`, resource);
+    (resource.contained || []).forEach((c: FhirResource) => {
+      if (c.id) byRef.set(`#${c.id}`, c);
+    });
+
+    if (resource.resourceType === 'Bundle') {
+      (resource.entry || []).forEach((e: any) => visit(e.resource, e.fullUrl));
+    } else if (resource.resourceType === 'List') {
+      (resource.contained || []).forEach((c: FhirResource) => visit(c));
+      (resource.entry || []).forEach((e: any) => {
+        const ref = e.item?.reference;
+        if (ref && ref.startsWith('#')) return; // contained, visited above
+        if (e.item?.resource) visit(e.item.resource);
+      });
+    } else {
+      resources.push(resource);
+    }
+  };
+
+  visit(input);
+  // Lists can point into the surrounding bundle; pick those up now the map is complete
+  const walkLists = (r: any) => {
+    if (r?.resourceType === 'Bundle') (r.entry || []).forEach((e: any) => walkLists(e.resource));
+    if (r?.resourceType !== 'List') return;
+    (r.entry || []).forEach((e: any) => {
+      const target = e.item?.reference && byRef.get(e.item.reference);
+      if (target && !resources.includes(target)) resources.push(target);
+    });
+  };
+  walkLists(input);
+  return { resources, byRef };
+};
+
+const conceptName = (concept: any): string | undefined =>
+  concept?.text || concept?.coding?.find((c: any) => c.display)?.display;
+
+const medicationName = (resource: FhirResource, byRef: Map<string, FhirResource>): string | undefined => {
+  if (resource.medicationCodeableConcept) return conceptName(resource.medicationCodeableConcept);
+  const ref = resource.medicationReference;
+  if (!ref) return undefined;
+  const medication = ref.reference ? byRef.get(ref.reference) : undefined;
+  return conceptName(medication?.code) || ref.display;
+};
+
+interface MappedSchedule {
+  frequency: FrequencyType;
+  times: string[];
+  daysOfWeek?: number[];
+  interval?: number;
+  startTime?: string;
+  cycleOnDays?: number;
+  cycleOffDays?: number;
+  prnMinHours?: number;
+  prnMaxPerDay?: number;
+  endDate?: string;
+  totalDoses?: number;
+}
+
+// Map one Dosage onto our schedule model. Returns notes for anything that needed a guess.
+const mapDosage = (dosage: any, startDate: string, cycle?: { on: number; off: number }): { schedule: MappedSchedule; durationDays?: number; notes: string[] } => {
+  const notes: string[] = [];
+  let durationDays: number | undefined;
+  const repeat = dosage?.timing?.repeat;
+  const described = dosage?.timing?.code?.text || dosage?.text;
+
+  const unmapped = (reason: string) => {
+    notes.push(reason);
+    return { schedule: { frequency: FrequencyType.AS_NEEDED, times: [] }, notes };
+  };
+
+  if (dosage?.asNeededBoolean || dosage?.asNeededCodeableConcept) {
+    const schedule: MappedSchedule = { frequency: FrequencyType.AS_NEEDED, times: [] };
+    const max = dosage.maxDosePerPeriod;
+    const perMinutes = max?.denominator && UNIT_MINUTES[max.denominator.code || max.denominator.unit];
+    if (max?.numerator?.value && perMinutes) {
+      schedule.prnMaxPerDay = Math.floor(max.numerator.value / ((max.denominator.value || 1) * perMinutes / UNIT_MINUTES.d));
+    }
+    if (repeat?.period && (repeat.periodUnit === 'h' || repeat.periodUnit === 'min')) {
+      schedule.prnMinHours = Math.round(repeat.period * UNIT_MINUTES[repeat.periodUnit] / 60 * 10) / 10;
+    }
+    return { schedule, notes };
+  }
+
+  if (!repeat) {
+    return unmapped(described ? `No structured timing: "${described}". Set the schedule by hand.` : 'No timing was given. Set the schedule by hand.');
+  }
+
+  if (repeat.frequencyMax || repeat.periodMax) notes.push('The timing gives a range; the lower frequency was used.');
+
+  const frequency: number = repeat.frequency || 1;
+  const period: number = repeat.period || 1;
+  const unit: string = repeat.periodUnit || 'd';
+
+  const explicitTimes: string[] = (repeat.timeOfDay || []).map(toTime);
+  const whenCodes: string[] = repeat.when || [];
+  const whenTimes = whenCodes.map(code => WHEN_TIMES[code]).filter(Boolean);
+  if (whenCodes.length > whenTimes.length) notes.push(`Timing "${whenCodes.join(', ')}" was approximated; check the times.`);
+
+  const dailyTimes = (count: number) => {
+    if (explicitTimes.length > 0) return explicitTimes;
+    if (whenTimes.length > 0) return whenTimes;
+    notes.push(`Only "${count}× a day" was given; the times are a suggestion.`);
+    return spreadTimes(count);
+  };
+
+  let schedule: MappedSchedule;
+
+  if (UNIT_MINUTES[unit] !== undefined && unit !== 'd') {
+    // Every N hours / minutes
+    const everyMinutes = Math.round(period * UNIT_MINUTES[unit] / frequency);
+    if (everyMinutes >= 24 * 60) {
+      schedule = { frequency: FrequencyType.DAILY, times: dailyTimes(1) };
+    } else if (everyMinutes < 15) {
+      return unmapped(`Doses every ${everyMinutes} minutes can't be scheduled.`);
+    } else {
+      const startTime = explicitTimes[0] || '08:00';
+      const times: string[] = [];
+      for (let m = Number(startTime.slice(0, 2)) * 60 + Number(startTime.slice(3)); m < 24 * 60; m += everyMinutes) {
+        times.push(`${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`);
+      }
+      schedule = { frequency: FrequencyType.INTERVAL, times, interval: everyMinutes, startTime };
+    }
+  } else if (unit === 'd') {
+    if (repeat.dayOfWeek?.length) {
+      schedule = { frequency: FrequencyType.WEEKLY, times: dailyTimes(frequency), daysOfWeek: dayNumbers(repeat.dayOfWeek) };
+    } else if (period === 1) {
+      schedule = { frequency: FrequencyType.DAILY, times: dailyTimes(frequency) };
+    } else if (frequency === 1) {
+      // Every N days is a cycle of one day on, N - 1 off
+      schedule = { frequency: FrequencyType.CYCLIC, times: dailyTimes(1), cycleOnDays: 1, cycleOffDays: period - 1 };
+    } else {
+      return unmapped(`"${frequency} times every ${period} days" has no matching schedule.`);
+    }
+  } else if (unit === 'wk' && period === 1) {
+    if (repeat.dayOfWeek?.length) {
+      schedule = { frequency: FrequencyType.WEEKLY, times: dailyTimes(1), daysOfWeek: dayNumbers(repeat.dayOfWeek) };
+    } else if (frequency >= 7) {
+      schedule = { frequency: FrequencyType.DAILY, times: dailyTimes(Math.round(frequency / 7)) };
+    } else {
+      // Spread N days across the week, starting on the start date's weekday
+      const first = new Date(startDate + 'T00:00').getDay();
+      const days = Array.from({ length: frequency }, (_, i) => (first + Math.floor(i * 7 / frequency)) % 7).sort();
+      notes.push(`"${frequency}× a week" didn't say which days; check the weekdays.`);
+      schedule = { frequency: FrequencyType.WEEKLY, times: dailyTimes(1), daysOfWeek: days };
+    }
+  } else {
+    return unmapped(`"${frequency} per ${period} ${unit}" schedules aren't supported. Set the schedule by hand.`);
+  }
+
+  if (cycle && schedule.frequency === FrequencyType.DAILY) {
+    schedule = { ...schedule, frequency: FrequencyType.CYCLIC, cycleOnDays: cycle.on, cycleOffDays: cycle.off };
+  }
+
+  // Course length
+  if (repeat.count) schedule.totalDoses = repeat.count;
+  if (repeat.boundsDuration?.value) {
+    const boundsUnit = repeat.boundsDuration.code || repeat.boundsDuration.unit;
+    durationDays = durationInDays(repeat.boundsDuration.value, boundsUnit) ?? undefined;
+    schedule.endDate = addInterval(startDate, repeat.boundsDuration.value, boundsUnit);
+    if (!schedule.endDate) notes.push('The course length could not be read; set an end date if needed.');
+  } else if (repeat.boundsPeriod?.end) {
+    schedule.endDate = repeat.boundsPeriod.end.slice(0, 10);
+  }
+
+  return { schedule, durationDays, notes };
+};
+
+const readCycle = (resource: FhirResource) => {
+  const ext = (resource.extension || []).find((e: any) => e.url === CYCLE_EXTENSION_URL);
+  if (!ext) return undefined;
+  const value = (url: string) => (ext.extension || []).find((e: any) => e.url === url)?.valueInteger;
+  return { on: value('onDays') || 1, off: value('offDays') || 0 };
+};
+
+const readDose = (dosage: any): { text?: string; quantity?: number; unit?: StockUnit } => {
+  const dose = dosage?.doseAndRate?.[0]?.doseQuantity || dosage?.doseAndRate?.[0]?.doseRange?.low;
+  if (!dose?.value) return {};
+  const unitName = dose.unit || dose.code;
+  return { text: unitName ? `${dose.value} ${unitName}` : String(dose.value), quantity: dose.value, unit: toStockUnit(unitName) };
+};
+
+const readStartDate = (resource: FhirResource, fallback: string): string =>
+  (resource.effectivePeriod?.start || resource.effectiveDateTime
+    || resource.dosageInstruction?.[0]?.timing?.repeat?.boundsPeriod?.start
+    || fallback).slice(0, 10);
+
+// The MediMind id of a record that came from one of our own exports
+const sourceId = (resource: FhirResource): string | undefined =>
+  (resource.identifier || []).find((i: any) => i.system === IDENTIFIER_SYSTEM)?.value;
+
+const toMedication = (resource: FhirResource, name: string, today: string): Medication => {
+  const dosages: any[] = [...(resource.dosageInstruction || resource.dosage || [])]
+    .sort((a, b) => (a.sequence || 0) - (b.sequence || 0));
+  const startDate = readStartDate(resource, today);
+  const cycle = readCycle(resource);
+  const reviewNotes: string[] = [];
+
+  const mapped = dosages.map(d => ({ dosage: d, ...mapDosage(d, startDate, cycle), dose: readDose(d) }));
+  const first = mapped[0] || { dosage: undefined, ...mapDosage(undefined, startDate, cycle), dose: {} };
+
+  // Consecutive bounded daily steps become a taper; anything else uses the first instruction
+  const isTaper = mapped.length > 1 && mapped.every(m =>
+    m.schedule.frequency === FrequencyType.DAILY && m.durationDays && m.notes.length === 0);
+  let phases: DosePhase[] | undefined;
+  if (isTaper) {
+    phases = mapped.map(m => ({
+      id: uuidv4(),
+      dosage: m.dose.text || m.dosage?.text || '',
+      doseQuantity: m.dose.quantity || 1,
+      times: m.schedule.times,
+      durationDays: m.durationDays!
+    }));
+  } else {
+    reviewNotes.push(...first.notes);
+    if (mapped.length > 1) reviewNotes.push(`Only the first of ${mapped.length} dosage instructions was used.`);
+  }
+
+  const notes = [
+    ...(resource.note || []).map((n: any) => n.text),
+    ...dosages.map(d => d.patientInstruction).filter(Boolean)
+  ].filter(Boolean).join('\n');
+
+  return {
+    id: uuidv4(),
+    name,
+    dosage: first.dose.text || first.dosage?.text || '',
+    ...first.schedule,
+    ...(isTaper ? { frequency: FrequencyType.DAILY, times: phases![0].times, endDate: undefined, totalDoses: undefined, phases } : {}),
+    startDate,
+    notes: notes || undefined,
+    color: 'blue',
+    icon: 'pill',
+    doseQuantity: first.dose.quantity || 1,
+    stockUnit: first.dose.unit || 'tablets',
+    currentStock: resource.dispenseRequest?.quantity?.value || 30,
+    lowStockThreshold: 5,
+    reviewNotes: reviewNotes.length > 0 ? reviewNotes : undefined
+  };
+};
+
+// Read a FHIR document and turn its active MedicationRequests / MedicationStatements into medications.
+// Anything already on the list (exported from it, or with the same name) is skipped.
+// Imported medications always get new ids: the same file may be imported into several profiles.
+export const parseFhirMedications = (text: string, existing: Medication[], now: Date = new Date()): FhirImportResult => {
+  let input: unknown;
+  try {
+    input = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  const { resources, byRef } = collectResources(input);
+  const candidates = resources.filter(r => MEDICATION_TYPES.includes(r.resourceType));
+  if (candidates.length === 0) {
+    throw new Error('No MedicationRequest or MedicationStatement resources were found in this file.');
+  }
+
+  const today = format(now, 'yyyy-MM-dd');
+  const existingIds = new Set(existing.map(m => m.id));
+  const existingNames = new Set(existing.map(m => m.name.trim().toLowerCase()));
+  const result: FhirImportResult = { medications: [], skipped: [] };
+
+  candidates.forEach(resource => {
+    const name = medicationName(resource, byRef);
+    if (!name) {
+      result.skipped.push({ name: resource.id || resource.resourceType, reason: 'No medication name' });
+    } else if (INACTIVE_STATUSES.includes(resource.status)) {
+      result.skipped.push({ name, reason: `Status is "${resource.status}"` });
+    } else {
+      const fromId = sourceId(resource);
+      if ((fromId && existingIds.has(fromId)) || existingNames.has(name.trim().toLowerCase())) {
+        result.skipped.push({ name, reason: 'Already on your list' });
+      } else {
+        existingNames.add(name.trim().toLowerCase());
+        result.medications.push(toMedication(resource, name, today));
+      }
+    }
+  });
+
+  return result;
+};
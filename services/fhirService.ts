@@ -0,0 +1,279 @@
+import { Medication, LogEntry, VitalEntry, Appointment, Profile, FrequencyType, DosePhase, VitalType } from '../types';
+import { isCourseComplete, countTakenDoses, getDosageForDate, getDoseQuantity, parseDateStr } from './scheduleService';
+import { describePrnLimits } from './prnService';
+import { downloadFile } from './downloadService';
+import { v4 as uuidv4 } from 'uuid';
+
+// Export to a FHIR R4 Bundle (https://hl7.org/fhir/R4) so clinicians' systems can ingest the
+// data: Patient, MedicationStatement, MedicationAdministration, Observation and Appointment.
+
+// Our own ids travel as identifiers, so a re-import can tell records it already has
+export const IDENTIFIER_SYSTEM = 'urn:medimind';
+
+// Cycle on/off days have no place in Timing; they ride along as an extension
+export const CYCLE_EXTENSION_URL = 'https://medimind.app/fhir/StructureDefinition/dose-cycle';
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: any;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  meta: { lastUpdated: string };
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+export const FHIR_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface VitalCoding { code: string; display: string }
+
+// LOINC codes per vital type. Blood pressure is a panel with systolic/diastolic components.
+export const VITAL_LOINC: Record<VitalType, VitalCoding> = {
+  BLOOD_PRESSURE: { code: '85354-9', display: 'Blood pressure panel with all children optional' },
+  GLUCOSE: { code: '2339-0', display: 'Glucose [Mass/volume] in Blood' },
+  HEART_RATE: { code: '8867-4', display: 'Heart rate' },
+  WEIGHT: { code: '29463-7', display: 'Body weight' }
+};
+export const SYSTOLIC_LOINC: VitalCoding = { code: '8480-6', display: 'Systolic blood pressure' };
+export const DIASTOLIC_LOINC: VitalCoding = { code: '8462-4', display: 'Diastolic blood pressure' };
+const GLUCOSE_MOLAR_LOINC: VitalCoding = { code: '15074-8', display: 'Glucose [Moles/volume] in Blood' };
+
+// UCUM codes for the units the app records
+export const UCUM_UNITS: Record<string, string> = {
+  mmHg: 'mm[Hg]',
+  'mg/dL': 'mg/dL',
+  'mmol/L': 'mmol/L',
+  bpm: '/min',
+  kg: 'kg',
+  lb: '[lb_av]',
+  lbs: '[lb_av]'
+};
+
+const toFhirTime = (time: string) => `${time}:00`;
+
+const toDateTime = (dateStr: string, time: string) => new Date(`${dateStr}T${time}`).toISOString();
+
+const identifier = (id: string) => [{ system: IDENTIFIER_SYSTEM, value: id }];
+
+const quantity = (value: number, unit: string) => ({
+  value,
+  unit,
+  ...(UCUM_UNITS[unit] ? { system: UCUM, code: UCUM_UNITS[unit] } : {})
+});
+
+// FHIR ids allow letters, digits, '-' and '.', up to 64 characters
+const toFhirId = (id: string) => id.replace(/[^A-Za-z0-9\-.]/g, '-').slice(0, 64);
+
+// Timing.repeat for a schedule; as-needed medications have none
+const buildRepeat = (med: Medication, times: string[]): Record<string, unknown> | undefined => {
+  switch (med.frequency) {
+    case FrequencyType.DAILY:
+    case FrequencyType.CYCLIC:
+      return { frequency: times.length, period: 1, periodUnit: 'd', timeOfDay: times.map(toFhirTime) };
+    case FrequencyType.WEEKLY:
+      return {
+        frequency: times.length,
+        period: 1,
+        periodUnit: 'd',
+        dayOfWeek: (med.daysOfWeek || []).map(d => FHIR_DAYS[d]),
+        timeOfDay: times.map(toFhirTime)
+      };
+    case FrequencyType.INTERVAL:
+      return { frequency: 1, period: med.interval || 60, periodUnit: 'min' };
+    default:
+      return undefined;
+  }
+};
+
+const buildDosage = (med: Medication, text: string, doseQuantity: number, times: string[], phase?: { sequence: number; durationDays: number }) => {
+  const repeat = buildRepeat(med, times);
+  const timing = repeat && {
+    repeat: phase ? { ...repeat, boundsDuration: { value: phase.durationDays, unit: 'd', system: UCUM, code: 'd' } } : repeat
+  };
+  const isPrn = med.frequency === FrequencyType.AS_NEEDED;
+  return {
+    ...(phase ? { sequence: phase.sequence } : {}),
+    text: isPrn && describePrnLimits(med) ? `${text}, as needed (${describePrnLimits(med)})` : text,
+    ...(timing ? { timing } : {}),
+    ...(isPrn ? { asNeededBoolean: true } : {}),
+    ...(isPrn && med.prnMaxPerDay ? { maxDosePerPeriod: { numerator: { value: med.prnMaxPerDay }, denominator: { value: 1, unit: 'd', system: UCUM, code: 'd' } } } : {}),
+    doseAndRate: [{ doseQuantity: { value: doseQuantity, unit: med.stockUnit || 'tablets' } }]
+  };
+};
+
+export const medicationToStatement = (med: Medication, logs: LogEntry[], patientRef: string, now: Date = new Date()): FhirResource => {
+  const phases: DosePhase[] = med.phases || [];
+  const dosage = phases.length > 0
+    ? phases.map((p, i) => buildDosage(med, p.dosage, p.doseQuantity, p.times, { sequence: i + 1, durationDays: p.durationDays }))
+    : [buildDosage(med, med.dosage, med.doseQuantity || 1, med.times)];
+
+  const status = med.startDate && parseDateStr(med.startDate) > now
+    ? 'intended'
+    : isCourseComplete(med, countTakenDoses(med, logs), now) ? 'completed' : 'active';
+
+  return {
+    resourceType: 'MedicationStatement',
+    id: toFhirId(med.id),
+    identifier: identifier(med.id),
+    status,
+    medicationCodeableConcept: { text: med.name },
+    subject: { reference: patientRef },
+    ...(med.startDate || med.endDate ? {
+      effectivePeriod: {
+        ...(med.startDate ? { start: med.startDate } : {}),
+        ...(med.endDate ? { end: med.endDate } : {})
+      }
+    } : {}),
+    dateAsserted: new Date(med.createdAt || now.getTime()).toISOString(),
+    ...(med.notes ? { note: [{ text: med.notes }] } : {}),
+    ...(med.frequency === FrequencyType.CYCLIC ? {
+      extension: [{
+        url: CYCLE_EXTENSION_URL,
+        extension: [
+          { url: 'onDays', valueInteger: med.cycleOnDays || 0 },
+          { url: 'offDays', valueInteger: med.cycleOffDays || 0 }
+        ]
+      }]
+    } : {}),
+    dosage
+  };
+};
+
+export const logToAdministration = (log: LogEntry, med: Medication | undefined, patientRef: string, statementRef?: string): FhirResource => {
+  const taken = log.status === 'TAKEN';
+  // Doses that weren't taken are dated at their scheduled time when we know it
+  const scheduledAt = log.scheduledTime && /^\d{2}:\d{2}$/.test(log.scheduledTime) ? toDateTime(log.dateStr, log.scheduledTime) : null;
+  const date = parseDateStr(log.dateStr);
+  return {
+    resourceType: 'MedicationAdministration',
+    id: toFhirId(log.id),
+    identifier: identifier(log.id),
+    status: taken ? 'completed' : 'not-done',
+    ...(!taken ? { statusReason: [{ text: log.status === 'MISSED' ? 'Missed' : 'Skipped' }] } : {}),
+    medicationCodeableConcept: { text: med?.name || 'Unknown medication' },
+    subject: { reference: patientRef },
+    ...(statementRef ? { supportingInformation: [{ reference: statementRef }] } : {}),
+    effectiveDateTime: taken || !scheduledAt ? new Date(log.timestamp).toISOString() : scheduledAt,
+    ...(med ? {
+      dosage: {
+        text: getDosageForDate(med, date),
+        dose: { value: getDoseQuantity(med, date), unit: med.stockUnit || 'tablets' }
+      }
+    } : {})
+  };
+};
+
+export const vitalToObservation = (vital: VitalEntry, patientRef: string): FhirResource => {
+  const coding = vital.type === 'GLUCOSE' && vital.unit === 'mmol/L' ? GLUCOSE_MOLAR_LOINC : VITAL_LOINC[vital.type];
+  const base: FhirResource = {
+    resourceType: 'Observation',
+    id: toFhirId(vital.id),
+    identifier: identifier(vital.id),
+    status: 'final',
+    category: [{
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'vital-signs', display: 'Vital Signs' }]
+    }],
+    code: { coding: [{ system: LOINC, ...coding }], text: coding.display },
+    subject: { reference: patientRef },
+    effectiveDateTime: new Date(vital.timestamp).toISOString()
+  };
+
+  if (vital.type === 'BLOOD_PRESSURE') {
+    const [systolic, diastolic] = vital.value.split('/').map(Number);
+    return {
+      ...base,
+      component: [
+        { code: { coding: [{ system: LOINC, ...SYSTOLIC_LOINC }] }, valueQuantity: quantity(systolic, vital.unit) },
+        { code: { coding: [{ system: LOINC, ...DIASTOLIC_LOINC }] }, valueQuantity: quantity(diastolic, vital.unit) }
+      ]
+    };
+  }
+  return { ...base, valueQuantity: quantity(Number(vital.value), vital.unit) };
+};
+
+export const appointmentToFhir = (appt: Appointment, patientRef: string, patientName: string): FhirResource => ({
+  resourceType: 'Appointment',
+  id: toFhirId(appt.id),
+  identifier: identifier(appt.id),
+  status: 'booked',
+  serviceType: [{ text: appt.specialty }],
+  description: `${appt.specialty} with ${appt.doctorName}`,
+  start: toDateTime(appt.date, appt.time),
+  ...(appt.notes ? { comment: appt.notes } : {}),
+  participant: [
+    { actor: { reference: patientRef, display: patientName }, status: 'accepted' },
+    { actor: { display: appt.doctorName }, status: 'accepted' },
+    ...(appt.location ? [{ actor: { display: appt.location }, status: 'accepted' }] : [])
+  ]
+});
+
+export const profileToPatient = (profile: Profile): FhirResource => ({
+  resourceType: 'Patient',
+  id: toFhirId(profile.id),
+  identifier: identifier(profile.id),
+  name: [{ text: profile.name }],
+  ...(profile.gender ? { gender: profile.gender.toLowerCase() } : {}),
+  ...(profile.emergencyContact?.name || profile.emergencyContact?.phone ? {
+    contact: [{
+      relationship: [{ text: profile.emergencyContact.relation || 'Emergency contact' }],
+      name: { text: profile.emergencyContact.name },
+      ...(profile.emergencyContact.phone ? { telecom: [{ system: 'phone', value: profile.emergencyContact.phone }] } : {})
+    }]
+  } : {})
+});
+
+export interface FhirExportData {
+  profile: Profile;
+  medications: Medication[];
+  logs: LogEntry[];
+  vitals: VitalEntry[];
+  appointments: Appointment[];
+}
+
+// One profile's data as a FHIR collection Bundle. Resources reference each other by urn:uuid.
+export const buildFhirBundle = ({ profile, medications, logs, vitals, appointments }: FhirExportData, now: Date = new Date()): FhirBundle => {
+  const entry: FhirBundle['entry'] = [];
+  const add = (resource: FhirResource) => {
+    const fullUrl = `urn:uuid:${uuidv4()}`;
+    entry.push({ fullUrl, resource });
+    return fullUrl;
+  };
+
+  const patientRef = add(profileToPatient(profile));
+
+  const statementRefs = new Map<string, string>();
+  medications.forEach(med => statementRefs.set(med.id, add(medicationToStatement(med, logs, patientRef, now))));
+
+  const medsById = new Map(medications.map(m => [m.id, m]));
+  [...logs]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(log => add(logToAdministration(log, medsById.get(log.medicationId), patientRef, statementRefs.get(log.medicationId))));
+
+  [...vitals].sort((a, b) => a.timestamp - b.timestamp).forEach(v => add(vitalToObservation(v, patientRef)));
+  appointments.forEach(a => add(appointmentToFhir(a, patientRef, profile.name)));
+
+  return {
+    resourceType: 'Bundle',
+    id: uuidv4(),
+    meta: { lastUpdated: now.toISOString() },
+    type: 'collection',
+    timestamp: now.toISOString(),
+    entry
+  };
+};
+
+export const downloadFhirBundle = (bundle: FhirBundle, profileName: string) => {
+  downloadFile(
+    [JSON.stringify(bundle, null, 2)],
+    'application/fhir+json',
+    `MediMind_FHIR_${profileName.replace(/\s+/g, '_')}_${new Date().toISOString().slice(0, 10)}.json`
+  );
+};
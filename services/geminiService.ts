@@ -1,5 +1,8 @@
 import { GoogleGenAI, Type, Schema, Chat } from "@google/genai";
 import { FrequencyType, ParsedMedicationSchedule, DrugInfo, InteractionAnalysis, LogEntry, VitalEntry, MoodEntry, Medication, PharmacySearchResponse, PlaceResult, ConditionAdvice } from '../types';
+import { hasPrnLimits, describePrnLimits, getPrnUsage } from './prnService';
+import { describePunctuality } from './punctualityService';
+import { AdherenceSummary, describeAdherence } from './adherenceService';
 
 const apiKey = process.env.API_KEY || '';
 const ai = new GoogleGenAI({ apiKey });
@@ -12,7 +15,7 @@ const scheduleSchema: Schema = {
     dosage: { type: Type.STRING, description: "Dosage amount e.g. 500mg, 1 pill" },
     frequency: { 
       type: Type.STRING, 
-      enum: [FrequencyType.DAILY, FrequencyType.WEEKLY, FrequencyType.AS_NEEDED],
+      enum: [FrequencyType.DAILY, FrequencyType.WEEKLY, FrequencyType.AS_NEEDED, FrequencyType.CYCLIC],
       description: "How often the medicine should be taken"
     },
     times: {
@@ -25,8 +28,34 @@ const scheduleSchema: Schema = {
       items: { type: Type.INTEGER },
       description: "Array of integers 0-6 (Sun-Sat) if frequency is WEEKLY."
     },
+    cycleOnDays: { type: Type.INTEGER, description: "Days taken per cycle if frequency is CYCLIC, e.g. 21 for '21 days on, 7 off'." },
+    cycleOffDays: { type: Type.INTEGER, description: "Break days per cycle if frequency is CYCLIC, e.g. 7 for '21 days on, 7 off'." },
+    prnMinHours: { type: Type.NUMBER, description: "Minimum hours between doses if frequency is AS_NEEDED, e.g. 4 for 'every 4-6 hours'." },
+    prnMaxPerDay: { type: Type.INTEGER, description: "Maximum doses in 24 hours if frequency is AS_NEEDED, e.g. 4 for 'max 4 a day'." },
     notes: { type: Type.STRING, description: "Any special instructions like 'with food'" },
-    currentStock: { type: Type.INTEGER, description: "Total quantity of pills/units the user currently has, if mentioned." }
+    currentStock: { type: Type.NUMBER, description: "Total quantity the user currently has in stockUnit, if mentioned." },
+    doseQuantity: { type: Type.NUMBER, description: "Amount taken per dose in stockUnit, e.g. 2 for '2 tablets', 5 for '5 ml'." },
+    stockUnit: {
+      type: Type.STRING,
+      enum: ['tablets', 'capsules', 'ml', 'units', 'puffs', 'patches', 'drops'],
+      description: "Unit the medicine is counted in: tablets, capsules, ml (liquids), units (insulin), puffs (inhalers), patches or drops."
+    },
+    durationDays: { type: Type.INTEGER, description: "Length of the course in days if it is time-limited, e.g. 'for a week' = 7." },
+    totalDoses: { type: Type.INTEGER, description: "Total number of doses in the course if a fixed count is given, e.g. 'take 6 doses'." },
+    phases: {
+      type: Type.ARRAY,
+      description: "Only for tapering or titration plans where the dose changes over time. Steps in the order they are taken.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          dosage: { type: Type.STRING, description: "Dose for this step e.g. 2 tablets, 10mg" },
+          doseQuantity: { type: Type.NUMBER, description: "Number of units (tablets, ml...) per dose in this step, may be fractional e.g. 0.5" },
+          times: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Times in HH:MM 24h format for this step." },
+          durationDays: { type: Type.INTEGER, description: "Number of days this step lasts." }
+        },
+        required: ["dosage", "doseQuantity", "times", "durationDays"]
+      }
+    }
   },
   required: ["name", "frequency", "times"],
 };
@@ -43,7 +72,9 @@ export const parseMedicationInput = async (input: string): Promise<ParsedMedicat
       contents: `Parse this medication reminder request into a structured schedule: "${input}". 
       If the user does not specify a time, infer logical default times (e.g. morning=08:00, noon=12:00, evening=18:00, night=21:00). 
       If no frequency is mentioned but times are, assume DAILY.
-      If the user mentions having a supply (e.g. "I have 30 pills" or "bottle of 60"), extract that number to currentStock.`,
+      If the user mentions having a supply (e.g. "I have 30 pills" or "bottle of 60"), extract that number to currentStock.
+      If the treatment is time-limited (e.g. "for 10 days", "for a week"), set durationDays. If a fixed number of doses is given (e.g. "6 doses in total"), set totalDoses. Leave both empty for ongoing medication.
+      If the dose changes over time (a taper or titration, e.g. "2 tabs for 3 days, then 1 tab for 3 days, then half"), return each step in phases with its own dosage, doseQuantity, times and durationDays.`,
       config: {
         responseMimeType: "application/json",
         responseSchema: scheduleSchema,
@@ -77,7 +108,9 @@ export const parseMedicationAudio = async (base64Audio: string, mimeType: string
             text: `Listen to this audio. Parse this medication reminder request into a structured schedule. 
       If the user does not specify a time, infer logical default times (e.g. morning=08:00, noon=12:00, evening=18:00, night=21:00). 
       If no frequency is mentioned but times are, assume DAILY.
-      If the user mentions having a supply, extract that number to currentStock.`
+      If the user mentions having a supply, extract that number to currentStock.
+      If the treatment is time-limited, set durationDays. If a fixed number of doses is given, set totalDoses.
+      If the dose changes over time (a taper or titration), return each step in phases.`
           }
         ]
       },
@@ -246,18 +279,27 @@ export const generateHealthReport = async (
   medications: Medication[], 
   logs: LogEntry[], 
   vitals: VitalEntry[], 
-  moods: MoodEntry[]
+  moods: MoodEntry[],
+  adherence: AdherenceSummary
 ): Promise<string | null> => {
   if (!apiKey) return null;
 
   // Prepare data summary for the prompt
   const medSummary = medications.map(m => `${m.name} (${m.dosage}) - ${m.frequency}`).join(', ');
   
-  // Calculate simplistic adherence for context
-  const takenCount = logs.filter(l => l.status === 'TAKEN').length;
-  const skippedCount = logs.filter(l => l.status === 'SKIPPED').length;
-  const totalLogs = logs.length;
-  const adherence = totalLogs > 0 ? Math.round((takenCount / totalLogs) * 100) : 0;
+
+  // As-needed usage against prescribed limits, over the same period as the adherence figures
+  const prnSummary = medications
+    .filter(m => m.frequency === FrequencyType.AS_NEEDED)
+    .map(m => {
+      const { taken, violations } = getPrnUsage(m, logs, adherence.from, adherence.to);
+      if (!hasPrnLimits(m)) return `${m.name}: ${taken} doses taken`;
+      return `${m.name}: ${taken} doses taken (limits: ${describePrnLimits(m)}; ${violations.length} doses exceeded limits)`;
+    })
+    .join('; ');
+
+  // How close to schedule doses are taken (matters for e.g. levothyroxine, insulin)
+  const punctualitySummary = describePunctuality(medications, logs);
 
   // Recent vitals (last 10)
   const recentVitals = vitals.slice(-10).map(v => `${v.type}: ${v.value} ${v.unit} (${v.dateStr})`).join('; ');
@@ -270,7 +312,9 @@ export const generateHealthReport = async (
     
     Patient Data:
     - Current Medications: ${medSummary}
-    - Adherence Rate: ${adherence}% (${takenCount} taken, ${skippedCount} skipped in recent logs)
+    - Adherence (taken over scheduled, PDC = proportion of days covered): ${describeAdherence(adherence)}
+    - As-Needed (PRN) Use: ${prnSummary || 'None'}
+    - Dose Timing: ${punctualitySummary || 'No timing data'}
     - Recent Vitals: ${recentVitals || 'None recorded'}
     - Recent Mood/Symptoms: ${recentMoods || 'None recorded'}
 
@@ -280,7 +324,7 @@ export const generateHealthReport = async (
     
     Structure:
     1. <h2>Patient Summary</h2>: Brief overview of status and adherence.
-    2. <h2>Medication Analysis</h2>: Comments on consistency and medication list.
+    2. <h2>Medication Analysis</h2>: Comments on consistency, dose timing and medication list. Call out medications or times of day that are regularly taken late.
     3. <h2>Vitals & Wellbeing</h2>: Analysis of recorded vitals/moods (if any).
     4. <h2>Recommendations</h2>: 2-3 General health tips or things to discuss with the doctor based on the data.
     
@@ -0,0 +1,41 @@
+import { Medication, StockUnit } from '../types';
+import { getAverageDailyDoses, getDoseQuantity } from './scheduleService';
+
+export const STOCK_UNITS: { value: StockUnit; label: string; singular: string }[] = [
+  { value: 'tablets', label: 'Tablets', singular: 'tablet' },
+  { value: 'capsules', label: 'Capsules', singular: 'capsule' },
+  { value: 'ml', label: 'ml', singular: 'ml' },
+  { value: 'units', label: 'Units (IU)', singular: 'unit' },
+  { value: 'puffs', label: 'Puffs', singular: 'puff' },
+  { value: 'patches', label: 'Patches', singular: 'patch' },
+  { value: 'drops', label: 'Drops', singular: 'drop' },
+];
+
+// Keep fractional doses (half tablets, 2.5 ml) from accumulating float noise
+export const roundStock = (amount: number) => Math.round(amount * 100) / 100;
+
+// Unit label for an amount, e.g. "1 tablet", "2.5 ml". Legacy meds without a unit read "units".
+export const getUnitLabel = (unit: StockUnit | undefined, amount: number = 2) => {
+  const def = STOCK_UNITS.find(u => u.value === unit);
+  if (!def) return amount === 1 ? 'unit' : 'units';
+  return amount === 1 ? def.singular : def.value;
+};
+
+export const formatStockAmount = (amount: number, unit?: StockUnit) =>
+  `${roundStock(amount)} ${getUnitLabel(unit, roundStock(amount))}`;
+
+// New stock level after taking (negative) or restoring (positive) the given amount
+export const adjustStock = (currentStock: number, delta: number) =>
+  Math.max(0, roundStock(currentStock + delta));
+
+// Average consumption per day in the medication's stock unit
+export const getDailyUsage = (med: Medication, date: Date = new Date()) =>
+  getAverageDailyDoses(med, date) * getDoseQuantity(med, date);
+
+// Estimated whole days until stock runs out, or null for unscheduled (as-needed) meds
+export const getDaysLeft = (med: Medication, date: Date = new Date()): number | null => {
+  const usage = getDailyUsage(med, date);
+  return usage > 0 ? Math.floor(med.currentStock / usage) : null;
+};
+
+export const isLowStock = (med: Medication) => med.currentStock <= med.lowStockThreshold;
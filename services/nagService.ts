@@ -0,0 +1,61 @@
+import { Medication, LogEntry, SnoozeEntry, ReminderDose } from '../types';
+import { DoseOccurrence, expandSchedule } from './scheduleService';
+import { isDoseAcknowledged } from './escalationService';
+import { reminderTag } from './reminderActionService';
+
+// Repeat reminders for medications set to nag until logged. Repeats follow from the schedule
+// itself (every N minutes after the dose, M times), so nothing about them needs saving.
+
+const MINUTE_MS = 60 * 1000;
+
+export const NAG_INTERVAL_OPTIONS = [5, 10, 15, 30, 60];
+
+export const NAG_REPEAT_OPTIONS = [1, 2, 3, 5, 10];
+
+// Snoozes are kept in the meta store so they survive a reload and the service worker can add to them
+export const SNOOZES_META_KEY = 'snoozes';
+
+// Own tags, so a scheduled repeat doesn't replace the dose's pending reminder (sw.js builds the snooze one too)
+export const nagTag = (dose: ReminderDose, repeat: number) => `${reminderTag(dose)}:nag${repeat}`;
+export const snoozeTag = (dose: ReminderDose) => `${reminderTag(dose)}:snooze`;
+
+export interface NagOccurrence {
+  dose: DoseOccurrence;
+  repeat: number; // 1-based
+  at: number;
+}
+
+const isSnoozed = (dose: DoseOccurrence, snoozes: SnoozeEntry[]) =>
+  snoozes.some(s =>
+    s.medicationId === dose.medicationId &&
+    s.scheduledTime === dose.time &&
+    (!s.dateStr || s.dateStr === dose.dateStr)
+  );
+
+// Repeats falling in [from, to) for doses still not taken or skipped. A snoozed dose waits for its snooze instead.
+export const findNags = (
+  medications: Medication[],
+  logs: LogEntry[],
+  snoozes: SnoozeEntry[],
+  from: Date,
+  to: Date
+): NagOccurrence[] =>
+  medications.filter(med => med.nag && med.nag.everyMinutes > 0 && med.nag.maxRepeats > 0).flatMap(med => {
+    const { everyMinutes, maxRepeats } = med.nag!;
+    const earliestDose = new Date(from.getTime() - everyMinutes * maxRepeats * MINUTE_MS);
+    return expandSchedule(med, earliestDose, to)
+      .filter(dose => !isDoseAcknowledged(dose, logs) && !isSnoozed(dose, snoozes))
+      .flatMap(dose => Array.from({ length: maxRepeats }, (_, i) => ({
+        dose,
+        repeat: i + 1,
+        at: dose.timestamp + (i + 1) * everyMinutes * MINUTE_MS
+      })))
+      .filter(nag => nag.at >= from.getTime() && nag.at < to.getTime());
+  });
+
+// Repeats due in the current minute, for the in-page reminder loop
+export const findNagsForMinute = (medications: Medication[], logs: LogEntry[], snoozes: SnoozeEntry[], now: Date) => {
+  const minuteStart = new Date(now);
+  minuteStart.setSeconds(0, 0);
+  return findNags(medications, logs, snoozes, minuteStart, new Date(minuteStart.getTime() + MINUTE_MS));
+};
@@ -0,0 +1,106 @@
+import { Medication, LogEntry } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface PrnStatus {
+  dosesInWindow: number; // TAKEN doses in the last 24h
+  lastTakenAt: number | null;
+  nextAllowedAt: number | null; // null when a dose is allowed now
+  blockedBy: 'interval' | 'daily-limit' | null;
+}
+
+export interface PrnViolation {
+  logId: string;
+  timestamp: number;
+  reason: 'interval' | 'daily-limit';
+}
+
+export const hasPrnLimits = (med: Medication) => !!med.prnMinHours || !!med.prnMaxPerDay;
+
+const takenTimestamps = (medId: string, logs: LogEntry[]) =>
+  logs
+    .filter(l => l.medicationId === medId && l.status === 'TAKEN')
+    .map(l => l.timestamp)
+    .sort((a, b) => a - b);
+
+// Where an as-needed medication stands against its limits right now
+export const getPrnStatus = (med: Medication, logs: LogEntry[], now: number = Date.now()): PrnStatus => {
+  const taken = takenTimestamps(med.id, logs).filter(t => t <= now);
+  const inWindow = taken.filter(t => t > now - DAY_MS);
+  const lastTakenAt = taken.length > 0 ? taken[taken.length - 1] : null;
+
+  let nextAllowedAt: number | null = null;
+  let blockedBy: PrnStatus['blockedBy'] = null;
+
+  if (med.prnMaxPerDay && inWindow.length >= med.prnMaxPerDay) {
+    // The window frees up once enough of the oldest doses age past 24h
+    nextAllowedAt = inWindow[inWindow.length - med.prnMaxPerDay] + DAY_MS;
+    blockedBy = 'daily-limit';
+  }
+  if (med.prnMinHours && lastTakenAt !== null) {
+    const intervalEnd = lastTakenAt + med.prnMinHours * HOUR_MS;
+    if (intervalEnd > now && (nextAllowedAt === null || intervalEnd > nextAllowedAt)) {
+      nextAllowedAt = intervalEnd;
+      blockedBy = 'interval';
+    }
+  }
+
+  return { dosesInWindow: inWindow.length, lastTakenAt, nextAllowedAt, blockedBy };
+};
+
+// Logged doses that were taken too soon after the previous one or over the 24h maximum
+export const getPrnViolations = (med: Medication, logs: LogEntry[]): PrnViolation[] => {
+  if (!hasPrnLimits(med)) return [];
+  const taken = logs
+    .filter(l => l.medicationId === med.id && l.status === 'TAKEN')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const violations: PrnViolation[] = [];
+  taken.forEach((log, i) => {
+    const previous = taken[i - 1];
+    if (med.prnMinHours && previous && log.timestamp - previous.timestamp < med.prnMinHours * HOUR_MS) {
+      violations.push({ logId: log.id, timestamp: log.timestamp, reason: 'interval' });
+      return;
+    }
+    if (med.prnMaxPerDay) {
+      const inWindow = taken.filter(t => t.timestamp > log.timestamp - DAY_MS && t.timestamp <= log.timestamp).length;
+      if (inWindow > med.prnMaxPerDay) {
+        violations.push({ logId: log.id, timestamp: log.timestamp, reason: 'daily-limit' });
+      }
+    }
+  });
+  return violations;
+};
+
+export interface PrnUsage {
+  taken: number;
+  violations: PrnViolation[];
+}
+
+// Doses taken in [from, to) and which of them broke the limits. Violations are judged
+// against every log, so a dose just after `from` still counts the one before it.
+export const getPrnUsage = (med: Medication, logs: LogEntry[], from: Date, to: Date): PrnUsage => {
+  const inRange = (timestamp: number) => timestamp >= from.getTime() && timestamp < to.getTime();
+  return {
+    taken: takenTimestamps(med.id, logs).filter(inRange).length,
+    violations: getPrnViolations(med, logs).filter(v => inRange(v.timestamp))
+  };
+};
+
+export const describePrnLimits = (med: Medication): string => {
+  const parts: string[] = [];
+  if (med.prnMinHours) parts.push(`every ${med.prnMinHours}h min`);
+  if (med.prnMaxPerDay) parts.push(`max ${med.prnMaxPerDay}/24h`);
+  return parts.join(', ');
+};
+
+// "2h 05m 09s" style countdown text
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${h}h ${pad(m)}m ${pad(s)}s` : `${m}m ${pad(s)}s`;
+};
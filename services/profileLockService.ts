@@ -0,0 +1,39 @@
+import { Profile, ProfilePin } from '../types';
+import { deriveKey, encryptWithKey, decryptWithKey, randomBytes, toBase64, fromBase64 } from './cryptoService';
+
+// Per-profile PINs for shared devices. A PIN guards switching into a profile and keeps its
+// reminders free of medication details; it doesn't encrypt anything (that's the app lock's job).
+
+const PBKDF2_ITERATIONS = 100000;
+const VERIFIER_TEXT = 'medimind-profile';
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+export const hasProfilePin = (profile?: Profile | null) => !!profile?.pin;
+
+export const createProfilePin = async (pin: string): Promise<ProfilePin> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(pin, salt, PBKDF2_ITERATIONS);
+  return {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptWithKey(key, VERIFIER_TEXT)
+  };
+};
+
+// Profiles without a PIN always pass
+export const verifyProfilePin = async (profile: Profile, pin: string): Promise<boolean> => {
+  if (!profile.pin) return true;
+  const key = await deriveKey(pin, fromBase64(profile.pin.salt), profile.pin.iterations);
+  try {
+    return (await decryptWithKey(key, profile.pin.verifier.iv, profile.pin.verifier.data)) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+};
+
+// Reminder text for a profile whose details shouldn't show: who it's for, but not what
+export const redactedReminder = (profile?: Profile | null) => ({
+  title: 'MediMind Reminder',
+  body: `${profile?.name || 'Someone'} has a reminder. Open MediMind to see it.`
+});
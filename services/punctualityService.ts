@@ -0,0 +1,116 @@
+import { Medication, LogEntry, FrequencyType } from '../types';
+import { parseDateStr } from './scheduleService';
+
+const MINUTE_MS = 60 * 1000;
+
+// A dose counts as on time when taken within this many minutes either side of its slot
+export const ON_TIME_WINDOW_MINUTES = 30;
+
+export type TimeSlot = 'morning' | 'afternoon' | 'evening';
+
+export const TIME_SLOT_LABELS: Record<TimeSlot, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening'
+};
+
+// Part of the day a dose slot falls in; also used to group the Dashboard
+export const getTimeSlot = (time: string): TimeSlot => {
+  const hour = parseInt(time.split(':')[0]);
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+};
+
+export interface PunctualityStats {
+  count: number;
+  onTimeRate: number; // 0-100
+  medianDelay: number; // minutes, negative when early
+}
+
+const isClockTime = (time?: string): time is string => !!time && /^\d{2}:\d{2}$/.test(time);
+
+// Minutes between a taken dose's slot and when it was actually taken, or null for
+// logs with no fixed slot (as-needed doses, skipped / missed entries)
+export const getDoseDelayMinutes = (log: LogEntry): number | null => {
+  if (log.status !== 'TAKEN' || !isClockTime(log.scheduledTime)) return null;
+  const [h, m] = log.scheduledTime.split(':').map(Number);
+  const scheduledAt = parseDateStr(log.dateStr);
+  scheduledAt.setHours(h, m, 0, 0);
+  return Math.round((log.timestamp - scheduledAt.getTime()) / MINUTE_MS);
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+export const summarizeDelays = (delays: number[]): PunctualityStats | null => {
+  if (delays.length === 0) return null;
+  const onTime = delays.filter(d => Math.abs(d) <= ON_TIME_WINDOW_MINUTES).length;
+  return {
+    count: delays.length,
+    onTimeRate: Math.round((onTime / delays.length) * 100),
+    medianDelay: median(delays)
+  };
+};
+
+// Delays of every scheduled dose taken, restricted to the given medications
+const collectDelays = (meds: Medication[], logs: LogEntry[]) => {
+  const scheduledIds = new Set(meds.filter(m => m.frequency !== FrequencyType.AS_NEEDED).map(m => m.id));
+  return logs.flatMap(log => {
+    if (!scheduledIds.has(log.medicationId)) return [];
+    const delay = getDoseDelayMinutes(log);
+    return delay === null ? [] : [{ log, delay }];
+  });
+};
+
+export const getOverallPunctuality = (meds: Medication[], logs: LogEntry[]) =>
+  summarizeDelays(collectDelays(meds, logs).map(d => d.delay));
+
+export const getMedicationPunctuality = (meds: Medication[], logs: LogEntry[]) => {
+  const delays = collectDelays(meds, logs);
+  return meds.flatMap(med => {
+    const stats = summarizeDelays(delays.filter(d => d.log.medicationId === med.id).map(d => d.delay));
+    return stats ? [{ med, stats }] : [];
+  });
+};
+
+export interface SlotPunctuality {
+  slot: TimeSlot;
+  stats: PunctualityStats;
+  isChronicallyLate: boolean;
+}
+
+// A slot is chronically late when its typical dose lands outside the on-time window
+export const getSlotPunctuality = (meds: Medication[], logs: LogEntry[]): SlotPunctuality[] => {
+  const delays = collectDelays(meds, logs);
+  return (Object.keys(TIME_SLOT_LABELS) as TimeSlot[]).flatMap(slot => {
+    const stats = summarizeDelays(delays.filter(d => getTimeSlot(d.log.scheduledTime!) === slot).map(d => d.delay));
+    return stats ? [{ slot, stats, isChronicallyLate: stats.medianDelay > ON_TIME_WINDOW_MINUTES }] : [];
+  });
+};
+
+export const formatDelay = (minutes: number): string => {
+  if (minutes === 0) return 'on time';
+  const abs = Math.abs(minutes);
+  const amount = abs >= 60 ? `${Math.floor(abs / 60)}h${abs % 60 ? ` ${abs % 60}m` : ''}` : `${abs} min`;
+  return `${amount} ${minutes < 0 ? 'early' : 'late'}`;
+};
+
+// One-line summary for the doctor's report
+export const describePunctuality = (meds: Medication[], logs: LogEntry[]): string => {
+  const overall = getOverallPunctuality(meds, logs);
+  if (!overall) return '';
+
+  const perMed = getMedicationPunctuality(meds, logs)
+    .map(({ med, stats }) => `${med.name}: ${stats.onTimeRate}% on time, median ${formatDelay(stats.medianDelay)}`)
+    .join('; ');
+  const lateSlots = getSlotPunctuality(meds, logs)
+    .filter(s => s.isChronicallyLate)
+    .map(s => `${TIME_SLOT_LABELS[s.slot]} (median ${formatDelay(s.stats.medianDelay)})`)
+    .join(', ');
+
+  return `${overall.onTimeRate}% of ${overall.count} scheduled doses taken within ${ON_TIME_WINDOW_MINUTES} min of the scheduled time. ${perMed}.${lateSlots ? ` Chronically late slots: ${lateSlots}.` : ''}`;
+};
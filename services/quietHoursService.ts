@@ -0,0 +1,51 @@
+import { Medication, Profile, QuietHours, QuietMode } from '../types';
+import { addDays } from 'date-fns';
+
+export const QUIET_MODES: { value: QuietMode; label: string }[] = [
+  { value: 'silent', label: 'Silent' },
+  { value: 'vibrate', label: 'Vibrate only' },
+  { value: 'defer', label: 'Hold until the end' }
+];
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { start: '22:00', end: '07:00', mode: 'silent' };
+
+// How a notification goes out: as usual, or quietened by the profile's quiet hours
+export type NotificationDelivery = 'normal' | QuietMode;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Critical medications (those with an escalation plan) always ring
+export const isCriticalMedication = (med: Medication) => !!med.escalation;
+
+export const isInQuietHours = (quiet: QuietHours, date: Date) => {
+  const start = toMinutes(quiet.start);
+  const end = toMinutes(quiet.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+// The next time the window closes after the given moment
+export const getQuietHoursEnd = (quiet: QuietHours, date: Date): Date => {
+  const end = toMinutes(quiet.end);
+  const result = new Date(date);
+  result.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  return result > date ? result : addDays(result, 1);
+};
+
+// Delivery of a dose reminder for the profile at the given moment
+export const getNotificationDelivery = (profile: Profile | undefined, med: Medication | undefined, at: Date): NotificationDelivery => {
+  const quiet = profile?.quietHours;
+  if (!quiet || !isInQuietHours(quiet, at)) return 'normal';
+  if (med && isCriticalMedication(med)) return 'normal';
+  return quiet.mode;
+};
+
+// For alerts that can't wait for the window to close (low stock): those held back go out silently instead
+export const getAlertDelivery = (profile: Profile | undefined, med: Medication | undefined, at: Date): NotificationDelivery => {
+  const delivery = getNotificationDelivery(profile, med, at);
+  return delivery === 'defer' ? 'silent' : delivery;
+};
@@ -0,0 +1,38 @@
+import { ReminderDose } from '../types';
+import { takeMeta } from './storageService';
+
+// Take / Snooze / Skip buttons on reminder notifications. sw.js handles the clicks: with no
+// window open and unencrypted data it writes the log itself; otherwise it queues the action
+// in the meta store and tells any open window, which applies it through the normal handlers.
+// Keep the names here in step with sw.js, which can't import them.
+
+export type ReminderAction = 'take' | 'snooze' | 'skip';
+
+export const REMINDER_SNOOZE_MINUTES = 10;
+
+export const PENDING_ACTIONS_META_KEY = 'pendingReminderActions';
+
+// Message sent to open windows after the worker queues an action
+export const ACTIONS_QUEUED_MESSAGE = 'reminder-actions-queued';
+
+export interface QueuedReminderAction extends ReminderDose {
+  action: ReminderAction;
+  at: number; // when the button was pressed
+}
+
+export const NOTIFICATION_ACTIONS: { action: ReminderAction; title: string }[] = [
+  { action: 'take', title: 'Take' },
+  { action: 'snooze', title: `Snooze ${REMINDER_SNOOZE_MINUTES} min` },
+  { action: 'skip', title: 'Skip' }
+];
+
+// One notification per dose, so reminders for different medications don't replace each other
+export const reminderTag = (dose: ReminderDose) => `medication-reminder:${dose.medicationId}:${dose.dateStr}:${dose.scheduledTime}`;
+
+// Everything the worker queued since we last looked. A dose pressed twice keeps only its last action.
+export const takeQueuedReminderActions = async (): Promise<QueuedReminderAction[]> => {
+  const queued = (await takeMeta<QueuedReminderAction[]>(PENDING_ACTIONS_META_KEY)) || [];
+  const latest = new Map<string, QueuedReminderAction>();
+  [...queued].sort((a, b) => a.at - b.at).forEach(a => latest.set(reminderTag(a), a));
+  return [...latest.values()];
+};
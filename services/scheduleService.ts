@@ -0,0 +1,246 @@
+import { Medication, FrequencyType, LogEntry, DosePhase } from '../types';
+import { format, addDays, startOfDay, differenceInCalendarDays } from 'date-fns';
+
+// A single concrete dose a medication's schedule asks for
+export interface DoseOccurrence {
+  medicationId: string;
+  dateStr: string; // YYYY-MM-DD
+  time: string; // HH:mm, matches LogEntry.scheduledTime
+  timestamp: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const toDateStr = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Parse a YYYY-MM-DD string as local midnight (avoids the UTC shift of new Date('YYYY-MM-DD'))
+export const parseDateStr = (dateStr: string) => new Date(dateStr + 'T00:00');
+
+const atTime = (day: Date, time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  const d = startOfDay(day);
+  d.setHours(h, m, 0, 0);
+  return d;
+};
+
+const toOccurrence = (med: Medication, at: Date): DoseOccurrence => ({
+  medicationId: med.id,
+  dateStr: toDateStr(at),
+  time: format(at, 'HH:mm'),
+  timestamp: at.getTime()
+});
+
+// Days of the week a WEEKLY medication is due. Without explicit days we fall back
+// to the weekday of the start date, or every day if there is no start date either.
+const getWeeklyDays = (med: Medication): number[] => {
+  if (med.daysOfWeek && med.daysOfWeek.length > 0) return med.daysOfWeek;
+  if (med.startDate) return [parseDateStr(med.startDate).getDay()];
+  return [0, 1, 2, 3, 4, 5, 6];
+};
+
+const isCyclicSchedule = (med: Medication) =>
+  med.frequency === FrequencyType.CYCLIC && !!med.cycleOnDays && med.cycleOnDays > 0 && !!med.startDate;
+
+// Where the given day falls in an on/off cycle anchored at startDate, or null for non-cyclic meds
+export const getCyclePosition = (med: Medication, date: Date): { isOnDay: boolean; day: number; length: number } | null => {
+  if (!isCyclicSchedule(med)) return null;
+  const onDays = med.cycleOnDays!;
+  const offDays = Math.max(0, med.cycleOffDays || 0);
+  const elapsed = differenceInCalendarDays(date, parseDateStr(med.startDate!));
+  if (elapsed < 0) return null;
+
+  const dayInCycle = elapsed % (onDays + offDays);
+  return dayInCycle < onDays
+    ? { isOnDay: true, day: dayInCycle + 1, length: onDays }
+    : { isOnDay: false, day: dayInCycle - onDays + 1, length: offDays };
+};
+
+const isIntervalSchedule = (med: Medication) =>
+  med.frequency === FrequencyType.INTERVAL && !!med.interval && med.interval > 0;
+
+// Interval doses form one continuous chain anchored at startDate + startTime,
+// so e.g. "every 5 hours" correctly rolls over midnight.
+const expandInterval = (med: Medication, from: Date, to: Date): DoseOccurrence[] => {
+  const anchorDay = med.startDate ? parseDateStr(med.startDate) : new Date(1970, 0, 1);
+  const anchor = atTime(anchorDay, med.startTime || med.times[0] || '08:00').getTime();
+  const step = med.interval! * MINUTE_MS;
+
+  const result: DoseOccurrence[] = [];
+  const firstIndex = Math.max(0, Math.ceil((from.getTime() - anchor) / step));
+  for (let t = anchor + firstIndex * step; t < to.getTime(); t += step) {
+    result.push(toOccurrence(med, new Date(t)));
+  }
+  return result;
+};
+
+const hasPhases = (med: Medication) => !!med.phases && med.phases.length > 0;
+
+// The dosing phase in effect on the given day. Null when the medication has no
+// phases, has no start date to anchor them, or the day falls outside the plan.
+export const getActivePhase = (med: Medication, date: Date): { phase: DosePhase; index: number } | null => {
+  if (!hasPhases(med) || !med.startDate) return null;
+  let phaseStart = parseDateStr(med.startDate);
+  const day = startOfDay(date);
+  if (day < phaseStart) return null;
+
+  for (let index = 0; index < med.phases!.length; index++) {
+    const phase = med.phases![index];
+    const phaseEnd = addDays(phaseStart, phase.durationDays);
+    if (day < phaseEnd) return { phase, index };
+    phaseStart = phaseEnd;
+  }
+  return null;
+};
+
+// Dosage text for the given day, following the active phase if there is one
+export const getDosageForDate = (med: Medication, date: Date): string =>
+  getActivePhase(med, date)?.phase.dosage || med.dosage;
+
+// Stock units consumed by one dose taken on the given day
+export const getDoseQuantity = (med: Medication, date: Date): number =>
+  getActivePhase(med, date)?.phase.doseQuantity ?? med.doseQuantity ?? 1;
+
+// Whether a fixed-times (DAILY / WEEKLY / CYCLIC) medication is due at all on the given day
+export const isScheduledOn = (med: Medication, date: Date): boolean => {
+  if (med.frequency === FrequencyType.AS_NEEDED) return false;
+  if (med.startDate && toDateStr(date) < med.startDate) return false;
+  if (med.frequency === FrequencyType.WEEKLY) {
+    return getWeeklyDays(med).includes(date.getDay());
+  }
+  if (isCyclicSchedule(med)) {
+    return getCyclePosition(med, date)?.isOnDay ?? false;
+  }
+  return true;
+};
+
+// Expansion of the recurring pattern only, ignoring any course end
+const expandPattern = (med: Medication, from: Date, to: Date): DoseOccurrence[] => {
+  if (med.frequency === FrequencyType.AS_NEEDED || from >= to) return [];
+  if (isIntervalSchedule(med)) return expandInterval(med, from, to);
+
+  const result: DoseOccurrence[] = [];
+  const times = [...med.times].sort();
+  for (let day = startOfDay(from); day < to; day = addDays(day, 1)) {
+    // Phased plans are daily, with the times of whichever phase is active
+    let dayTimes = times;
+    if (hasPhases(med) && med.startDate) {
+      const active = getActivePhase(med, day);
+      if (!active) continue;
+      dayTimes = [...active.phase.times].sort();
+    } else if (!isScheduledOn(med, day)) {
+      continue;
+    }
+    dayTimes.forEach(time => {
+      const at = atTime(day, time);
+      if (at >= from && at < to) result.push(toOccurrence(med, at));
+    });
+  }
+  return result;
+};
+
+// Upper bound on how far ahead we search for the last dose of a totalDoses course
+const MAX_COURSE_SEARCH_DAYS = 366 * 5;
+
+const findCourseEnd = (med: Medication): Date | null => {
+  let end: Date | null = med.endDate ? addDays(parseDateStr(med.endDate), 1) : null;
+
+  if (hasPhases(med) && med.startDate) {
+    const totalDays = med.phases!.reduce((sum, p) => sum + p.durationDays, 0);
+    const phasesEnd = addDays(parseDateStr(med.startDate), totalDays);
+    if (!end || phasesEnd < end) end = phasesEnd;
+  }
+
+  if (med.totalDoses && med.totalDoses > 0 && med.startDate) {
+    const start = parseDateStr(med.startDate);
+    const limit = addDays(start, MAX_COURSE_SEARCH_DAYS);
+    let counted = 0;
+    for (let chunk = start; chunk < limit && (!end || chunk < end); chunk = addDays(chunk, 31)) {
+      const doses = expandPattern(med, chunk, addDays(chunk, 31));
+      if (counted + doses.length >= med.totalDoses) {
+        const last = doses[med.totalDoses - counted - 1];
+        const doseEnd = new Date(last.timestamp + 1);
+        end = end && end < doseEnd ? end : doseEnd;
+        break;
+      }
+      counted += doses.length;
+    }
+  }
+
+  return end;
+};
+
+// Course ends by medication id, with the schedule each was worked out from. Every reminder
+// check and adherence figure expands schedules, and counting out a totalDoses course can walk years.
+const courseEndCache = new Map<string, { schedule: string; end: Date | null }>();
+
+const scheduleKey = (med: Medication) => JSON.stringify([
+  med.frequency, med.times, med.daysOfWeek, med.interval, med.startTime, med.startDate, med.endDate,
+  med.cycleOnDays, med.cycleOffDays, med.phases, med.totalDoses
+]);
+
+// Exclusive end of a fixed course (endDate, totalDoses and / or phases), or null if the medication is ongoing
+export const getCourseEnd = (med: Medication): Date | null => {
+  const schedule = scheduleKey(med);
+  const cached = courseEndCache.get(med.id);
+  if (cached && cached.schedule === schedule) return cached.end;
+  const end = findCourseEnd(med);
+  courseEndCache.set(med.id, { schedule, end });
+  return end;
+};
+
+// Expand a medication into every dose occurrence in [from, to), sorted by time
+export const expandSchedule = (med: Medication, from: Date, to: Date): DoseOccurrence[] => {
+  const courseEnd = getCourseEnd(med);
+  return expandPattern(med, from, courseEnd && courseEnd < to ? courseEnd : to);
+};
+
+// Number of TAKEN doses recorded against a medication's current course. Doses from before its
+// startDate belong to an earlier course, which editing the start date leaves behind.
+export const countTakenDoses = (med: Medication, logs: LogEntry[]): number =>
+  logs.filter(l =>
+    l.medicationId === med.id && l.status === 'TAKEN' && (!med.startDate || l.dateStr >= med.startDate)
+  ).length;
+
+// A course is complete once its end has passed or every planned dose has been taken
+export const isCourseComplete = (med: Medication, dosesTaken: number, now: Date = new Date()): boolean => {
+  if (med.totalDoses && dosesTaken >= med.totalDoses) return true;
+  const courseEnd = getCourseEnd(med);
+  return !!courseEnd && now >= courseEnd;
+};
+
+// Expand several medications at once, merged into a single chronological list
+export const expandSchedules = (meds: Medication[], from: Date, to: Date): DoseOccurrence[] =>
+  meds
+    .flatMap(med => expandSchedule(med, from, to))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+export const getDosesForDate = (med: Medication, date: Date): DoseOccurrence[] => {
+  const day = startOfDay(date);
+  return expandSchedule(med, day, addDays(day, 1));
+};
+
+// "HH:mm" slots a medication is due on the given day
+export const getDoseTimesForDate = (med: Medication, date: Date): string[] =>
+  getDosesForDate(med, date).map(d => d.time);
+
+// Long-run average number of doses per day, used for stock / days-left estimates.
+// Phased plans report the rate of the phase active on the given day.
+export const getAverageDailyDoses = (med: Medication, date: Date = new Date()): number => {
+  if (hasPhases(med)) return getActivePhase(med, date)?.phase.times.length ?? 0;
+
+  switch (med.frequency) {
+    case FrequencyType.DAILY:
+      return med.times.length;
+    case FrequencyType.WEEKLY:
+      return (med.times.length * getWeeklyDays(med).length) / 7;
+    case FrequencyType.INTERVAL:
+      return isIntervalSchedule(med) ? (24 * 60) / med.interval! : med.times.length;
+    case FrequencyType.CYCLIC: {
+      if (!isCyclicSchedule(med)) return med.times.length;
+      const onDays = med.cycleOnDays!;
+      return (med.times.length * onDays) / (onDays + Math.max(0, med.cycleOffDays || 0));
+    }
+    default:
+      return 0;
+  }
+};
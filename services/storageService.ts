@@ -0,0 +1,370 @@
+import { Medication, LogEntry, VitalEntry, Appointment, MoodEntry, Profile, WellnessGoal, CustomSound } from '../types';
+import { encryptWithKey, decryptWithKey } from './cryptoService';
+
+// Repository layer over IndexedDB. Every collection the app keeps is an object store keyed
+// by id; per-profile collections are indexed by profile (and by date where they have one).
+
+const DB_NAME = 'medimind';
+
+export interface StoreRecords {
+  profiles: Profile;
+  medications: Medication;
+  logs: LogEntry;
+  vitals: VitalEntry;
+  appointments: Appointment;
+  moods: MoodEntry;
+  goals: WellnessGoal;
+  sounds: CustomSound;
+}
+
+export type StoreName = keyof StoreRecords;
+
+export const STORE_NAMES: StoreName[] = ['profiles', 'medications', 'logs', 'vitals', 'appointments', 'moods', 'goals', 'sounds'];
+
+// Small key/value settings (active profile, import markers)
+const META_STORE = 'meta';
+
+// Records without a profileId belong to the default profile; they are stored with it
+// filled in so the profile indexes cover them.
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Schema migrations, one per version. Step N upgrades a database at version N to N + 1.
+// Never edit a released step - append a new one and the version follows.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: initial stores and indexes
+  (db) => {
+    db.createObjectStore('profiles', { keyPath: 'id' });
+    db.createObjectStore('goals', { keyPath: 'id' });
+    db.createObjectStore(META_STORE);
+
+    const meds = db.createObjectStore('medications', { keyPath: 'id' });
+    meds.createIndex('profileId', 'profileId');
+
+    const appointments = db.createObjectStore('appointments', { keyPath: 'id' });
+    appointments.createIndex('profileId', 'profileId');
+
+    (['logs', 'vitals', 'moods'] as const).forEach(name => {
+      const store = db.createObjectStore(name, { keyPath: 'id' });
+      store.createIndex('profileId', 'profileId');
+      store.createIndex('dateStr', 'dateStr');
+      store.createIndex('profileId_dateStr', ['profileId', 'dateStr']);
+    });
+  },
+  // v2: recorded / uploaded reminder sounds, shared by all profiles
+  (db) => {
+    db.createObjectStore('sounds', { keyPath: 'id' });
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once a write transaction has been committed
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; let it proceed and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const withProfile = <K extends StoreName>(store: K, record: StoreRecords[K]): StoreRecords[K] =>
+  store === 'profiles' || store === 'goals' || store === 'sounds' || (record as { profileId?: string }).profileId
+    ? record
+    : { ...record, profileId: DEFAULT_PROFILE_ID };
+
+// Encryption at rest. While a key is set (app lock enabled and unlocked) records are stored
+// as { id, profileId, dateStr, enc } - only the fields the indexes need stay readable.
+let encryptionKey: CryptoKey | null = null;
+// Set while the app is locked: the key has been dropped, and nothing may be written in plaintext
+let isStorageLocked = false;
+
+export const setEncryptionKey = (key: CryptoKey | null) => {
+  encryptionKey = key;
+  isStorageLocked = false;
+};
+
+// Writes still on their way to the database, so locking can let them finish under the key
+const pendingWrites = new Set<Promise<void>>();
+
+const trackWrite = (write: Promise<void>) => {
+  pendingWrites.add(write);
+  const settle = () => { pendingWrites.delete(write); };
+  write.then(settle, settle);
+  return write;
+};
+
+// Resolves once the writes started so far have finished, rejecting if any of them failed
+export const whenWritesSettled = async (): Promise<void> => {
+  const results = await Promise.allSettled([...pendingWrites]);
+  const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failed) throw failed.reason;
+};
+
+// Forget the key until the passphrase is entered again. Writes already started are waited for
+// first; rejects if any of them failed, so the lock screen can say the change wasn't saved.
+export const lockStorage = async (): Promise<void> => {
+  try {
+    await whenWritesSettled();
+  } finally {
+    if (encryptionKey) {
+      encryptionKey = null;
+      isStorageLocked = true;
+    }
+  }
+};
+
+interface EncryptedRecord {
+  id: string;
+  profileId?: string;
+  dateStr?: string;
+  enc: { iv: string; data: string };
+}
+
+const isEncryptedRecord = (record: unknown): record is EncryptedRecord =>
+  !!record && typeof record === 'object' && 'enc' in record;
+
+const encodeRecord = async <K extends StoreName>(
+  store: K,
+  record: StoreRecords[K],
+  key: CryptoKey | null = encryptionKey
+): Promise<StoreRecords[K] | EncryptedRecord> => {
+  if (isStorageLocked && !key) throw new Error('Data is locked');
+  const stored = withProfile(store, record);
+  if (!key) return stored;
+  const { id, profileId, dateStr } = stored as { id: string; profileId?: string; dateStr?: string };
+  return { id, profileId, dateStr, enc: await encryptWithKey(key, JSON.stringify(stored)) };
+};
+
+const decodeRecords = async <T>(records: unknown[]): Promise<T[]> =>
+  Promise.all(records.map(async record => {
+    if (!isEncryptedRecord(record)) return record as T;
+    if (!encryptionKey) throw new Error('Data is locked');
+    return JSON.parse(await decryptWithKey(encryptionKey, record.enc.iv, record.enc.data)) as T;
+  }));
+
+export const getAll = async <K extends StoreName>(store: K): Promise<StoreRecords[K][]> => {
+  const db = await openDatabase();
+  return decodeRecords(await promisify(db.transaction(store).objectStore(store).getAll()));
+};
+
+export const getByProfile = async <K extends 'medications' | 'logs' | 'vitals' | 'appointments' | 'moods'>(
+  store: K,
+  profileId: string
+): Promise<StoreRecords[K][]> => {
+  const db = await openDatabase();
+  return decodeRecords(await promisify(db.transaction(store).objectStore(store).index('profileId').getAll(profileId)));
+};
+
+// Records of one profile with a dateStr in [fromDateStr, toDateStr], both inclusive
+export const getByProfileAndDateRange = async <K extends 'logs' | 'vitals' | 'moods'>(
+  store: K,
+  profileId: string,
+  fromDateStr: string,
+  toDateStr: string
+): Promise<StoreRecords[K][]> => {
+  const db = await openDatabase();
+  const range = IDBKeyRange.bound([profileId, fromDateStr], [profileId, toDateStr]);
+  return decodeRecords(await promisify(db.transaction(store).objectStore(store).index('profileId_dateStr').getAll(range)));
+};
+
+// Every record of every store, once the writes under way have landed (backups need all of it,
+// not just what the page has loaded)
+export const getAllStores = async (): Promise<{ [K in StoreName]: StoreRecords[K][] }> => {
+  await whenWritesSettled();
+  const data = await Promise.all(STORE_NAMES.map(store => getAll(store)));
+  return Object.fromEntries(STORE_NAMES.map((store, i) => [store, data[i]])) as { [K in StoreName]: StoreRecords[K][] };
+};
+
+// Swap the contents of every store for the given data in one transaction (restoring a backup)
+export const replaceAllStores = async (data: { [K in StoreName]: StoreRecords[K][] }): Promise<void> => {
+  await whenWritesSettled();
+  const encoded = await Promise.all(STORE_NAMES.map(store =>
+    Promise.all((data[store] as StoreRecords[typeof store][]).map(record => encodeRecord(store, record)))
+  ));
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAMES, 'readwrite');
+  STORE_NAMES.forEach((store, i) => {
+    const objectStore = tx.objectStore(store);
+    objectStore.clear();
+    encoded[i].forEach(record => objectStore.put(record));
+  });
+  await transactionDone(tx);
+};
+
+export const putRecords = <K extends StoreName>(store: K, records: StoreRecords[K][]): Promise<void> =>
+  trackWrite(writeRecords(store, records));
+
+export const deleteRecords = (store: StoreName, ids: string[]): Promise<void> =>
+  trackWrite(removeRecords(store, ids));
+
+const writeRecords = async <K extends StoreName>(store: K, records: StoreRecords[K][]): Promise<void> => {
+  if (records.length === 0) return;
+  // Encrypt before opening the transaction: it would auto-commit while awaiting WebCrypto
+  const encoded = await Promise.all(records.map(record => encodeRecord(store, record)));
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  encoded.forEach(record => objectStore.put(record));
+  return transactionDone(tx);
+};
+
+const removeRecords = async (store: StoreName, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  ids.forEach(id => objectStore.delete(id));
+  return transactionDone(tx);
+};
+
+// Write only what changed between two in-memory snapshots of a collection.
+// Records are compared by identity, so state updates must replace rather than mutate them.
+export const syncCollection = <K extends StoreName>(
+  store: K,
+  previous: StoreRecords[K][],
+  next: StoreRecords[K][]
+): Promise<void> => {
+  if (previous === next) return Promise.resolve();
+  const previousById = new Map(previous.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+
+  const changed = next.filter(r => previousById.get(r.id) !== r);
+  const removed = previous.filter(r => !nextIds.has(r.id)).map(r => r.id);
+
+  return Promise.all([putRecords(store, changed), deleteRecords(store, removed)]).then(() => undefined);
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  return transactionDone(tx);
+};
+
+// Read a meta value and delete it in the same transaction, so nothing written in between is lost
+export const takeMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  const store = tx.objectStore(META_STORE);
+  const value = await promisify(store.get(key));
+  store.delete(key);
+  await transactionDone(tx);
+  return value;
+};
+
+// Legacy localStorage keys holding whole collections as JSON (sounds came after the move)
+const LEGACY_KEYS: Partial<Record<StoreName, string>> = {
+  profiles: 'medimind_profiles',
+  medications: 'medimind_meds',
+  logs: 'medimind_logs',
+  vitals: 'medimind_vitals',
+  appointments: 'medimind_appointments',
+  moods: 'medimind_moods',
+  goals: 'medimind_goals'
+};
+const LEGACY_ACTIVE_PROFILE_KEY = 'medimind_active_profile';
+
+const readLegacy = (key: string): any[] => {
+  try {
+    const item = localStorage.getItem(key);
+    const parsed = item ? JSON.parse(item) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error(`Error parsing ${key}`, e);
+    return [];
+  }
+};
+
+// One-time move of data saved by earlier versions of the app out of localStorage.
+// The legacy keys are only cleared once everything has been committed to IndexedDB.
+export const importFromLocalStorage = async (): Promise<boolean> => {
+  if (await getMeta<boolean>('localStorageImported')) return false;
+
+  const legacy = await Promise.all(STORE_NAMES.map(store =>
+    Promise.all((LEGACY_KEYS[store] ? readLegacy(LEGACY_KEYS[store]!) : []).filter(r => r && r.id).map(r => encodeRecord(store, r)))
+  ));
+
+  const db = await openDatabase();
+  const tx = db.transaction([...STORE_NAMES, META_STORE], 'readwrite');
+  STORE_NAMES.forEach((store, i) => {
+    const objectStore = tx.objectStore(store);
+    legacy[i].forEach(record => objectStore.put(record));
+  });
+  const activeProfile = localStorage.getItem(LEGACY_ACTIVE_PROFILE_KEY);
+  if (activeProfile) tx.objectStore(META_STORE).put(activeProfile, 'activeProfileId');
+  tx.objectStore(META_STORE).put(true, 'localStorageImported');
+  await transactionDone(tx);
+
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key!));
+  localStorage.removeItem(LEGACY_ACTIVE_PROFILE_KEY);
+  return true;
+};
+
+// Re-write every store under a new encryption key (or in plaintext for null), together with
+// the meta entry that says how to read them. Used when the app lock is switched on or off.
+// It's one transaction, so the data and the lock settings can't end up out of step: if anything
+// fails it all rolls back, and the key in use only changes once the new data is committed.
+export const reencryptAllStores = async (newKey: CryptoKey | null, metaKey: string, metaValue: unknown): Promise<void> => {
+  const data = await Promise.all(STORE_NAMES.map(store => getAll(store)));
+  // Encrypt up front: the transaction would auto-commit while awaiting WebCrypto
+  const encoded = await Promise.all(STORE_NAMES.map((store, i) =>
+    Promise.all((data[i] as StoreRecords[typeof store][]).map(record => encodeRecord(store, record, newKey)))
+  ));
+
+  const db = await openDatabase();
+  const tx = db.transaction([...STORE_NAMES, META_STORE], 'readwrite');
+  STORE_NAMES.forEach((store, i) => {
+    const objectStore = tx.objectStore(store);
+    encoded[i].forEach(record => objectStore.put(record));
+  });
+  if (metaValue === undefined) tx.objectStore(META_STORE).delete(metaKey);
+  else tx.objectStore(META_STORE).put(metaValue, metaKey);
+  await transactionDone(tx);
+  setEncryptionKey(newKey);
+};
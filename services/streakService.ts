@@ -0,0 +1,84 @@
+import { Medication, LogEntry } from '../types';
+import { expandSchedule, toDateStr } from './scheduleService';
+import { getTrackingStart } from './adherenceService';
+import { addDays, startOfDay, subDays } from 'date-fns';
+
+// Streak rules:
+// - A day counts when every dose scheduled that day was taken.
+// - A SKIPPED dose is a deliberate decision (e.g. on a doctor's advice), so by default it
+//   does not break the streak. It doesn't add to it either if nothing else was taken.
+// - MISSED or unlogged doses break the streak.
+// - Days with nothing scheduled (as-needed only, cyclic breaks, other weekdays) are neutral.
+// - Today never breaks the streak while it is still in progress.
+export const SKIPPED_BREAKS_STREAK = false;
+
+// Upper bound on how far back a streak is traced
+const MAX_STREAK_LOOKBACK_DAYS = 730;
+
+export interface StreakOptions {
+  skippedBreaksStreak?: boolean;
+}
+
+export interface StreakResult {
+  current: number;
+  longest: number;
+}
+
+type DayOutcome = 'kept' | 'broken' | 'neutral';
+
+export const getStreak = (
+  meds: Medication[],
+  logs: LogEntry[],
+  now: Date = new Date(),
+  { skippedBreaksStreak = SKIPPED_BREAKS_STREAK }: StreakOptions = {}
+): StreakResult => {
+  const today = startOfDay(now);
+  const todayStr = toDateStr(today);
+  const earliest = subDays(today, MAX_STREAK_LOOKBACK_DAYS);
+
+  const statusByDose = new Map<string, LogEntry['status']>();
+  logs.forEach(l => statusByDose.set(`${l.medicationId}|${l.dateStr}|${l.scheduledTime}`, l.status));
+
+  // Outcome of every dose since each medication started being tracked, grouped by day
+  const dosesByDay = new Map<string, (LogEntry['status'] | undefined)[]>();
+  let from: Date | null = null;
+  for (const med of meds) {
+    const start = getTrackingStart(med, logs);
+    if (!start) continue;
+    const medFrom = start < earliest ? earliest : start;
+    if (!from || medFrom < from) from = medFrom;
+    expandSchedule(med, medFrom, addDays(today, 1)).forEach(dose => {
+      const statuses = dosesByDay.get(dose.dateStr) || [];
+      statuses.push(statusByDose.get(`${dose.medicationId}|${dose.dateStr}|${dose.time}`));
+      dosesByDay.set(dose.dateStr, statuses);
+    });
+  }
+  if (!from) return { current: 0, longest: 0 };
+
+  const outcomes: DayOutcome[] = [];
+  for (let day: Date = from; day <= today; day = addDays(day, 1)) {
+    const dateStr = toDateStr(day);
+    const statuses = dosesByDay.get(dateStr) || [];
+    const isToday = dateStr === todayStr;
+    const isBroken = statuses.some(s =>
+      s === 'MISSED' || (skippedBreaksStreak && s === 'SKIPPED') || (s === undefined && !isToday)
+    );
+    if (statuses.length === 0) outcomes.push('neutral');
+    else if (isBroken) outcomes.push('broken');
+    // Today's unlogged doses may still be taken
+    else if (statuses.includes(undefined)) outcomes.push('neutral');
+    else outcomes.push(statuses.includes('TAKEN') ? 'kept' : 'neutral');
+  }
+
+  let longest = 0;
+  let run = 0;
+  outcomes.forEach(outcome => {
+    if (outcome === 'kept') longest = Math.max(longest, ++run);
+    else if (outcome === 'broken') run = 0;
+  });
+
+  return { current: run, longest };
+};
+
+export const getMedicationStreak = (med: Medication, logs: LogEntry[], now: Date = new Date(), options?: StreakOptions) =>
+  getStreak([med], logs.filter(l => l.medicationId === med.id), now, options);
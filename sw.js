@@ -7,9 +7,275 @@ self.addEventListener('activate', (event) => {
   event.waitUntil(self.clients.claim());
 });
 
+// --- Reminder actions ---
+// Names shared with services/reminderActionService.ts, backgroundReminderService.ts,
+// nagService.ts and storageService.ts
+const DB_NAME = 'medimind';
+const REMINDER_SCHEDULE_META_KEY = 'reminderSchedule';
+const SNOOZES_META_KEY = 'snoozes';
+const REMINDER_ICON_URL = 'https://cdn-icons-png.flaticon.com/512/3063/3063822.png';
+const PENDING_ACTIONS_META_KEY = 'pendingReminderActions';
+const ACTIONS_QUEUED_MESSAGE = 'reminder-actions-queued';
+const REMINDER_SNOOZE_MINUTES = 10;
+const DEFAULT_PROFILE_ID = 'default';
+const REMINDER_ACTIONS = [
+  { action: 'take', title: 'Take' },
+  { action: 'snooze', title: `Snooze ${REMINDER_SNOOZE_MINUTES} min` },
+  { action: 'skip', title: 'Skip' }
+];
+
+const requestToPromise = (request) =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx) =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Open the app's database at whatever version it is. The page owns the schema, so if the
+// database doesn't exist yet we back out instead of creating an empty one.
+const openDatabase = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const parseDateStr = (dateStr) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Same as getDoseQuantity in services/scheduleService.ts: the active taper phase's dose, else the medication's
+const getDoseQuantity = (med, dateStr) => {
+  const day = parseDateStr(dateStr);
+  if (med.phases && med.phases.length > 0 && med.startDate) {
+    let phaseStart = parseDateStr(med.startDate);
+    if (day >= phaseStart) {
+      for (const phase of med.phases) {
+        const phaseEnd = new Date(phaseStart.getFullYear(), phaseStart.getMonth(), phaseStart.getDate() + phase.durationDays);
+        if (day < phaseEnd) return phase.doseQuantity ?? med.doseQuantity ?? 1;
+        phaseStart = phaseEnd;
+      }
+    }
+  }
+  return med.doseQuantity ?? 1;
+};
+
+const adjustStock = (current, delta) => Math.max(0, Math.round((current + delta) * 100) / 100);
+
+// Record a take / skip straight into the database, reconciling stock against any earlier log of the dose.
+// Returns false when the data can't be written here (encrypted or missing) and the page has to do it.
+const writeDoseLog = async (db, action) => {
+  const status = action.action === 'take' ? 'TAKEN' : 'SKIPPED';
+  const tx = db.transaction(['meta', 'medications', 'logs'], 'readwrite');
+  const appLock = await requestToPromise(tx.objectStore('meta').get('appLock'));
+  const med = await requestToPromise(tx.objectStore('medications').get(action.medicationId));
+  if (appLock || !med || med.enc) {
+    tx.abort();
+    return false;
+  }
+
+  const profileId = med.profileId || DEFAULT_PROFILE_ID;
+  const dayLogs = await requestToPromise(
+    tx.objectStore('logs').index('profileId_dateStr').getAll([profileId, action.dateStr])
+  );
+  const existing = dayLogs.find(l => l.medicationId === med.id && l.scheduledTime === action.scheduledTime);
+
+  const doseQty = getDoseQuantity(med, action.dateStr);
+  const wasTaken = existing && existing.status === 'TAKEN';
+  const delta = (wasTaken ? doseQty : 0) - (status === 'TAKEN' ? doseQty : 0);
+  if (delta !== 0) {
+    tx.objectStore('medications').put({ ...med, currentStock: adjustStock(med.currentStock, delta) });
+  }
+
+  // A logged dose doesn't need its snooze any more
+  const snoozes = (await requestToPromise(tx.objectStore('meta').get(SNOOZES_META_KEY))) || [];
+  const remaining = snoozes.filter(s => !(s.medicationId === med.id && s.scheduledTime === action.scheduledTime));
+  if (remaining.length !== snoozes.length) tx.objectStore('meta').put(remaining, SNOOZES_META_KEY);
+
+  tx.objectStore('logs').put(existing
+    ? { ...existing, status, timestamp: action.at }
+    : {
+        id: self.crypto.randomUUID(),
+        medicationId: med.id,
+        profileId,
+        timestamp: action.at,
+        status,
+        scheduledTime: action.scheduledTime,
+        dateStr: action.dateStr
+      });
+  await transactionDone(tx);
+  return true;
+};
+
+// Leave the action for the page to apply with its own handlers the next time it looks
+const queueAction = async (db, action) => {
+  const tx = db.transaction('meta', 'readwrite');
+  const store = tx.objectStore('meta');
+  const queued = (await requestToPromise(store.get(PENDING_ACTIONS_META_KEY))) || [];
+  store.put([...queued, action], PENDING_ACTIONS_META_KEY);
+  await transactionDone(tx);
+};
+
+// Snooze with no page open: save the snooze where the page will load it, add it to the
+// background schedule for periodic sync, and set a trigger where the browser has them
+const snoozeReminder = async (db, notification, action) => {
+  const wakeUpTime = action.at + REMINDER_SNOOZE_MINUTES * 60 * 1000;
+  const dose = notification.data;
+  const doseTag = `medication-reminder:${dose.medicationId}:${dose.dateStr}:${dose.scheduledTime}`;
+  const tag = `${doseTag}:snooze`;
+
+  const tx = db.transaction('meta', 'readwrite');
+  const meta = tx.objectStore('meta');
+  const snoozes = (await requestToPromise(meta.get(SNOOZES_META_KEY))) || [];
+  meta.put([
+    ...snoozes.filter(s => !(s.medicationId === dose.medicationId && s.scheduledTime === dose.scheduledTime)),
+    { medicationId: dose.medicationId, scheduledTime: dose.scheduledTime, dateStr: dose.dateStr, wakeUpTime }
+  ], SNOOZES_META_KEY);
+  const schedule = (await requestToPromise(meta.get(REMINDER_SCHEDULE_META_KEY))) || [];
+  meta.put([
+    ...schedule,
+    { ...dose, at: wakeUpTime, title: notification.title, body: notification.body, tag, withActions: true }
+  ], REMINDER_SCHEDULE_META_KEY);
+  await transactionDone(tx);
+
+  // The snooze takes over from the dose's remaining repeats
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending.filter(n => n.tag && n.tag.startsWith(`${doseTag}:nag`)).forEach(n => n.close());
+
+  if (!('showTrigger' in Notification.prototype)) return;
+  await self.registration.showNotification(notification.title, {
+    body: notification.body,
+    icon: REMINDER_ICON_URL,
+    data: dose,
+    tag,
+    actions: REMINDER_ACTIONS,
+    requireInteraction: true,
+    vibrate: [200, 100, 200],
+    showTrigger: new TimestampTrigger(wakeUpTime)
+  });
+};
+
+// Drop reminders and escalation steps still waiting on a trigger for a dose that has been dealt with
+const cancelPendingReminders = async (dose) => {
+  const prefix = `medication-reminder:${dose.medicationId}:${dose.dateStr}:${dose.scheduledTime}`;
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending.filter(n => n.tag && n.tag.startsWith(prefix)).forEach(n => n.close());
+};
+
+const handleReminderAction = async (notification, actionName) => {
+  const action = { ...notification.data, action: actionName, at: Date.now() };
+  const clientList = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const db = await openDatabase();
+  try {
+    // An open window holds its own copy of the data, so it has to make the change itself
+    if (clientList.length === 0 && actionName === 'snooze') {
+      await snoozeReminder(db, notification, action);
+      return;
+    }
+    if (clientList.length === 0 && await writeDoseLog(db, action)) {
+      await cancelPendingReminders(action);
+      return;
+    }
+
+    await queueAction(db, action);
+    clientList.forEach(client => client.postMessage({ type: ACTIONS_QUEUED_MESSAGE }));
+  } finally {
+    db.close();
+  }
+};
+
+// --- Background reminders ---
+// The page keeps the next couple of days of reminders in the meta store
+// (services/backgroundReminderService.ts). Where the browser can't fire them on a trigger,
+// periodic sync wakes us up to show whichever came due since the last look.
+const REMINDERS_CHECKED_META_KEY = 'remindersCheckedAt';
+const PAGE_LOCKED_META_KEY = 'pageLocked'; // services/appLockService.ts
+const PERIODIC_SYNC_TAG = 'medication-reminders';
+
+// A reminder older than this is stale by the time a sync runs; the missed-dose sweep deals with it
+const MAX_REMINDER_DELAY_MS = 2 * 60 * 60 * 1000;
+
+const isDoseLogged = async (db, reminder) => {
+  const tx = db.transaction('logs');
+  const dayLogs = await requestToPromise(
+    tx.objectStore('logs').index('profileId_dateStr').getAll([reminder.profileId, reminder.dateStr])
+  );
+  // Encrypted logs can't be read here; their reminders are generic anyway, so showing one is harmless.
+  // A MISSED entry doesn't count: escalation steps keep going until the dose is taken or skipped.
+  return dayLogs.some(l =>
+    l.medicationId === reminder.medicationId && l.scheduledTime === reminder.scheduledTime && l.status !== 'MISSED'
+  );
+};
+
+const showDueReminders = async () => {
+  const clientList = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction('meta', 'readwrite');
+    const meta = tx.objectStore('meta');
+    // An open page runs its own reminder loop, unless it's sitting on the lock screen
+    const isPageLocked = await requestToPromise(meta.get(PAGE_LOCKED_META_KEY));
+    if (clientList.length > 0 && !isPageLocked) {
+      tx.abort();
+      return;
+    }
+    const schedule = (await requestToPromise(meta.get(REMINDER_SCHEDULE_META_KEY))) || [];
+    const checkedAt = (await requestToPromise(meta.get(REMINDERS_CHECKED_META_KEY))) || 0;
+    const now = Date.now();
+    meta.put(now, REMINDERS_CHECKED_META_KEY);
+    await transactionDone(tx);
+
+    const since = Math.max(checkedAt, now - MAX_REMINDER_DELAY_MS);
+    for (const reminder of schedule.filter(r => r.at > since && r.at <= now)) {
+      if (await isDoseLogged(db, reminder)) continue;
+      await self.registration.showNotification(reminder.title, {
+        body: reminder.body,
+        icon: REMINDER_ICON_URL,
+        tag: reminder.tag,
+        requireInteraction: true,
+        vibrate: [200, 100, 200],
+        silent: !!reminder.silent,
+        ...(reminder.withActions && {
+          data: {
+            medicationId: reminder.medicationId,
+            profileId: reminder.profileId,
+            scheduledTime: reminder.scheduledTime,
+            dateStr: reminder.dateStr
+          },
+          actions: REMINDER_ACTIONS
+        })
+      });
+    }
+  } finally {
+    db.close();
+  }
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag !== PERIODIC_SYNC_TAG) return;
+  event.waitUntil(showDueReminders().catch(error => console.error('Background reminder check failed', error)));
+});
+
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
-  
+
+  // Take / Snooze / Skip on a dose reminder: handled here, without opening the app
+  if (event.action && event.notification.data && event.notification.data.medicationId) {
+    event.waitUntil(
+      handleReminderAction(event.notification, event.action)
+        .catch(error => console.error('Reminder action failed', error))
+    );
+    return;
+  }
+
   event.waitUntil(
     clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
       // If a window is already open, focus it
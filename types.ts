@@ -4,17 +4,31 @@ export enum FrequencyType {
   DAILY = 'DAILY',
   WEEKLY = 'WEEKLY',
   AS_NEEDED = 'AS_NEEDED',
-  INTERVAL = 'INTERVAL'
+  INTERVAL = 'INTERVAL',
+  CYCLIC = 'CYCLIC'
 }
 
+export type StockUnit = 'tablets' | 'capsules' | 'ml' | 'units' | 'puffs' | 'patches' | 'drops';
+
 export type SoundType = 'default' | 'chime' | 'alert' | 'soft' | 'harp' | 'nature' | 'arcade' | 'glass' | 'shimmer' | 'echo';
 
+// A built-in sound, or a clip the user recorded or uploaded referenced as `custom:<id>`
+export type ReminderSound = SoundType | `custom:${string}`;
+
+// Reminder clip kept on the device, e.g. a family member saying it's time for the medication
+export interface CustomSound {
+  id: string;
+  name: string;
+  data: string; // audio as a data URL; records are JSON-encrypted under the app lock, so no Blobs
+  createdAt: number;
+}
+
 export interface Profile {
   id: string;
   name: string;
   avatar: string; // emoji or color
   themeColor: string;
-  preferredSound?: SoundType;
+  preferredSound?: ReminderSound;
   // Extended Health Profile
   gender?: 'Male' | 'Female' | 'Other';
   age?: string;
@@ -27,6 +41,50 @@ export interface Profile {
     relation: string;
     phone: string;
   };
+  pin?: ProfilePin; // switching to this profile asks for the PIN
+  caregiverProfileId?: string; // profile alerted when this profile's critical doses go unlogged
+  quietHours?: QuietHours;
+  voiceReminders?: VoiceReminderSettings;
+}
+
+// Reminders read aloud with the browser's speech synthesis
+export interface VoiceReminderSettings {
+  enabled: boolean;
+  voiceURI?: string; // browser default when unset or no longer installed
+  lang?: string; // BCP 47 tag, e.g. "en-GB"
+  rate: number; // 0.5 (slow) to 1.5 (fast)
+}
+
+// What happens to a non-critical reminder inside quiet hours
+export type QuietMode = 'silent' | 'vibrate' | 'defer';
+
+export interface QuietHours {
+  start: string; // HH:mm
+  end: string; // HH:mm, may be earlier than start for a window across midnight
+  mode: QuietMode;
+}
+
+// Only a salted check value is stored, never the PIN itself
+export interface ProfilePin {
+  salt: string;
+  iterations: number;
+  verifier: { iv: string; data: string };
+}
+
+// Escalation for a dose nobody has taken or skipped: remind the patient again, alert their
+// caregiver profile, then offer to call their emergency contact
+export type EscalationStep = 'renotify' | 'caregiver' | 'emergency';
+
+// Minutes after the scheduled time each step fires; steps left out are skipped
+export type EscalationPlan = Partial<Record<EscalationStep, number>>;
+
+// One step of a tapering / titration plan. Phases run back to back from the medication's startDate.
+export interface DosePhase {
+  id: string;
+  dosage: string; // e.g. "2 tablets"
+  doseQuantity: number; // amount deducted from stock per dose
+  times: string[]; // "HH:mm" format 24h
+  durationDays: number;
 }
 
 export interface Medication {
@@ -39,23 +97,40 @@ export interface Medication {
   daysOfWeek?: number[]; // 0-6 for Sunday-Saturday, used if WEEKLY
   interval?: number; // in minutes, used if INTERVAL
   startTime?: string; // used if INTERVAL
+  cycleOnDays?: number; // used if CYCLIC, days taken per cycle
+  cycleOffDays?: number; // used if CYCLIC, break days per cycle
+  prnMinHours?: number; // used if AS_NEEDED, minimum hours between doses
+  prnMaxPerDay?: number; // used if AS_NEEDED, maximum doses in any 24h window
+  graceMinutes?: number; // minutes after the scheduled time before an unlogged dose counts as MISSED
+  catchUpHours?: number; // take a late dose if within this many hours, otherwise skip (0 = always skip)
   startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, last day of a fixed-length course (inclusive)
+  totalDoses?: number; // course ends after this many scheduled doses
+  phases?: DosePhase[]; // stepped dosing plan, overrides dosage / times while active
   notes?: string;
   color: string;
   icon: string; // key for lucide icon
-  currentStock: number;
-  lowStockThreshold: number;
+  doseQuantity?: number; // amount of stockUnit taken per dose, defaults to 1
+  stockUnit?: StockUnit;
+  currentStock: number; // in stockUnit
+  lowStockThreshold: number; // in stockUnit
   expiryDate?: string; // YYYY-MM-DD
   refillDate?: string; // YYYY-MM-DD
-  reminderSound?: SoundType;
+  reminderSound?: ReminderSound;
+  escalation?: EscalationPlan; // set (even with every step off) on critical medications, which also ring through quiet hours
+  nag?: NagSchedule;
+  createdAt?: number; // doses scheduled before this are never flagged as missed
+  reviewNotes?: string[]; // imported details that need a person to check them; cleared on save
 }
 
+export type LogStatus = 'TAKEN' | 'SKIPPED' | 'MISSED';
+
 export interface LogEntry {
   id: string;
   profileId?: string;
   medicationId: string;
   timestamp: number;
-  status: 'TAKEN' | 'SKIPPED';
+  status: LogStatus;
   scheduledTime?: string; // The time slot this log corresponds to (for daily/weekly)
   dateStr: string; // YYYY-MM-DD for easy grouping
 }
@@ -77,8 +152,17 @@ export interface ParsedMedicationSchedule {
   frequency: FrequencyType;
   times: string[];
   daysOfWeek?: number[];
+  cycleOnDays?: number;
+  cycleOffDays?: number;
+  prnMinHours?: number;
+  prnMaxPerDay?: number;
   notes?: string;
   currentStock?: number;
+  doseQuantity?: number;
+  stockUnit?: StockUnit;
+  durationDays?: number;
+  totalDoses?: number;
+  phases?: Omit<DosePhase, 'id'>[];
 }
 
 export interface DrugInfo {
@@ -130,12 +214,27 @@ export interface MoodEntry {
   dateStr: string;
 }
 
+// The scheduled dose a reminder notification is about, carried in its data for the action buttons
+export interface ReminderDose {
+  medicationId: string;
+  profileId: string;
+  scheduledTime: string; // HH:mm
+  dateStr: string; // YYYY-MM-DD
+}
+
 export interface SnoozeEntry {
   medicationId: string;
   scheduledTime: string;
+  dateStr?: string; // day of the snoozed dose, YYYY-MM-DD
   wakeUpTime: number;
 }
 
+// Remind again every few minutes until the dose is taken or skipped, a limited number of times
+export interface NagSchedule {
+  everyMinutes: number;
+  maxRepeats: number;
+}
+
 export interface PlaceResult {
   title: string;
   uri: string;